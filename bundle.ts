@@ -39,9 +39,10 @@ if (shouldRunTests) {
 // ? This file does a lot of in just few lines thanks to bunjs
 console.log("Sterad: compiling...");
 await Bun.build({
-  entrypoints: ["src/index.ts"],
+  entrypoints: ["src/index.ts", "src/handler.ts"],
   outdir: "dist",
-  target: "bun",
+  // Node output runs under both runtimes
+  target: "node",
   banner: `
     // Sterad
     // Host your SPAs with SSR experience, no extra work, gain SEO and Fast Content delivery benefits.`,
@@ -52,18 +53,24 @@ await Bun.build({
   minify: true,
   target: "browser",
 });
-let code = await readFile("dist/index.js", {
-  encoding: "utf-8",
-});
 let script_code = await readFile("src/inject.js", {
   encoding: "utf-8",
 });
-code = code
-  // .replaceAll(/(\n|\r|\s{2,})/g, "")
-  .replace("{Sterad-SCRIPT}", script_code);
-// .replaceAll(/`/g, "\\`")
-// .replaceAll(/\${/g, "\\${");
-await writeFile("dist/index.js", code);
+// The CLI and the library entry each bundle their own copy of the handler.
+// The placeholder string literal, quotes included, is swapped for a JSON
+// string so quotes, backticks and ${ in the minified script stay inert
+const placeholder = /`\{Sterad-SCRIPT\}`|"\{Sterad-SCRIPT\}"/;
+for (const output of ["dist/index.js", "dist/handler.js"]) {
+  let code = await readFile(output, {
+    encoding: "utf-8",
+  });
+  if (!placeholder.test(code)) {
+    console.error(`Sterad: inject script placeholder not found in ${output}`);
+    process.exit(1);
+  }
+  code = code.replace(placeholder, () => JSON.stringify(script_code));
+  await writeFile(output, code);
+}
 await Bun.file("src/inject.js").delete();
 console.log("Sterad: compiled!");
 
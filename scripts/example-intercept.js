@@ -2,18 +2,18 @@
 /**
  * Example Intercept Script for Sterad
  *
- * This script demonstrates how to transform HTML before it's cached.
+ * This script demonstrates how to transform HTML before it is served from cache.
  * It receives JSON data via stdin and outputs transformed HTML to stdout.
  *
  * Input format:
  * {
- *   html: string,           // The complete HTML to be cached
+ *   html: string,           // The complete HTML to be served
  *   context: {
  *     path: string,         // The URL path being cached
  *     title: string,        // The page title
  *     content: string,      // The sanitized main content
  *     originalHtml: string, // The original SPA shell HTML
- *     timestamp: number     // Unix timestamp
+ *     timestamp: number     // Capture time (Unix timestamp in ms)
  *   }
  * }
  *
@@ -0,0 +1,92 @@
+// Admin JWTs: the signing config from the environment, verifying bearer
+// tokens on admin routes and issuing tokens for `sterad token create`
+import { jwtVerify, SignJWT } from "jose";
+
+// JWT configuration from environment
+export interface JWTConfig {
+  secret: string;
+  issuer: string;
+  audience: string;
+}
+
+// What a token can be limited to through its space-separated "scope" claim.
+// Tokens without the claim may use every admin route
+export const ADMIN_SCOPES = ["read", "purge", "reload"] as const;
+export type AdminScope = (typeof ADMIN_SCOPES)[number];
+
+// Load JWT configuration from environment
+export function loadJWTConfig(): JWTConfig | null {
+  const secret = process.env["JWT_SECRET"];
+
+  if (!secret) {
+    console.warn(
+      "Sterad: JWT_SECRET not found in environment. Admin routes will be disabled."
+    );
+    return null;
+  }
+
+  if (secret.length < 32) {
+    throw new Error(
+      "JWT_SECRET must be at least 32 characters long for security."
+    );
+  }
+
+  return {
+    secret,
+    issuer: process.env["JWT_ISSUER"] || "sterad",
+    audience: process.env["JWT_AUDIENCE"] || "sterad-admin",
+  };
+}
+
+// JWT token validation using jose library
+export async function validateBearerToken(
+  authHeader: string | null,
+  jwtConfig: JWTConfig | null,
+  scope: AdminScope
+): Promise<boolean> {
+  if (!jwtConfig) {
+    return false;
+  }
+
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    return false;
+  }
+
+  try {
+    const token = authHeader.substring(7);
+    const secret = new TextEncoder().encode(jwtConfig.secret);
+
+    const { payload } = await jwtVerify(token, secret, {
+      issuer: jwtConfig.issuer,
+      audience: jwtConfig.audience,
+    });
+    const granted = payload["scope"];
+    if (
+      granted !== undefined &&
+      !(typeof granted === "string" && granted.split(" ").includes(scope))
+    ) {
+      console.warn(`Sterad: JWT lacks the "${scope}" scope`);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.warn(`Sterad: JWT verification failed: ${error}`);
+    return false;
+  }
+}
+
+// Sign an admin token; without scopes it may use every admin route
+export async function createAdminToken(
+  jwtConfig: JWTConfig,
+  options: { subject: string; ttl: number; scopes: AdminScope[] }
+): Promise<string> {
+  const { subject, ttl, scopes } = options;
+  return new SignJWT(scopes.length > 0 ? { scope: scopes.join(" ") } : {})
+    .setProtectedHeader({ alg: "HS256" })
+    .setSubject(subject)
+    .setIssuer(jwtConfig.issuer)
+    .setAudience(jwtConfig.audience)
+    .setIssuedAt()
+    .setExpirationTime(Math.floor(Date.now() / 1000) + ttl)
+    .sign(new TextEncoder().encode(jwtConfig.secret));
+}
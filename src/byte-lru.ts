@@ -0,0 +1,91 @@
+// Least-recently-used cache bounded by the total size of its values instead
+// of their count. The backing Map's insertion order doubles as recency order:
+// reads move an entry to the end and eviction starts from the front.
+
+export interface SizedValue {
+  size: number; // Bytes the value keeps in memory
+}
+
+export interface ByteLruOptions {
+  maxBytes: number;
+  maxEntries?: number; // Optional cap on the number of entries
+  maxEntryBytes?: number; // Larger values are not cached at all
+}
+
+export class ByteLru<K, V extends SizedValue> {
+  private readonly entries = new Map<K, V>();
+  private totalBytes = 0;
+  private readonly options: ByteLruOptions;
+
+  constructor(options: ByteLruOptions) {
+    this.options = options;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get bytes(): number {
+    return this.totalBytes;
+  }
+
+  has(key: K): boolean {
+    return this.entries.has(key);
+  }
+
+  get(key: K): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  // Returns false when the value is too large to be cached
+  set(key: K, value: V): boolean {
+    this.delete(key);
+    const maxEntryBytes = this.options.maxEntryBytes ?? this.options.maxBytes;
+    if (value.size > maxEntryBytes) {
+      return false;
+    }
+
+    this.entries.set(key, value);
+    this.totalBytes += value.size;
+    this.evict();
+    return true;
+  }
+
+  delete(key: K): boolean {
+    const value = this.entries.get(key);
+    if (value === undefined) {
+      return false;
+    }
+    this.entries.delete(key);
+    this.totalBytes -= value.size;
+    return true;
+  }
+
+  keys(): IterableIterator<K> {
+    return this.entries.keys();
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+
+  private evict(): void {
+    const { maxBytes, maxEntries } = this.options;
+    for (const [key, value] of this.entries) {
+      if (
+        this.totalBytes <= maxBytes &&
+        (!maxEntries || this.entries.size <= maxEntries)
+      ) {
+        break;
+      }
+      this.entries.delete(key);
+      this.totalBytes -= value.size;
+    }
+  }
+}
@@ -0,0 +1,93 @@
+// Cache keys: a decoded pathname plus the query params that count for its
+// route. The handler and the offline `sterad cache` commands both build keys
+// through createCacheKeys(), so `sterad cache show /a?b=1` finds the entry a
+// request for the same URL would
+import type { Config } from "./config.js";
+import { decodePath } from "./paths.js";
+import { compileCachePatterns } from "./patterns.js";
+
+// Requests diagnostics headers; never part of a cache key, so a page loaded
+// with it is captured under the same key as without
+export const DEBUG_QUERY_PARAM = "__sterad_debug";
+
+type CacheKeyConfig = Pick<
+  Config,
+  | "cache_query_params"
+  | "cache_query_params_routes"
+  | "cache_drop_query_params"
+  | "cache_sort_query_params"
+>;
+
+export function createCacheKeys(config: CacheKeyConfig) {
+  const {
+    cache_query_params,
+    cache_query_params_routes,
+    cache_drop_query_params,
+    cache_sort_query_params,
+  } = config;
+
+  // Per-route query param allowlists, checked in declaration order (first match wins)
+  const queryParamRules = Object.entries(cache_query_params_routes!).map(
+    ([pattern, params]) => ({
+      regex: compileCachePatterns([pattern]),
+      params,
+    })
+  );
+
+  function isDroppedQueryParam(name: string): boolean {
+    return cache_drop_query_params!.some((dropped) =>
+      dropped.endsWith("*")
+        ? name.startsWith(dropped.slice(0, -1))
+        : name === dropped
+    );
+  }
+
+  // Build the cache key for a decoded pathname and its query string. Every
+  // lookup, write and purge goes through here so they agree on the key
+  function getCacheKey(pathname: string, search: string): string {
+    const rule = queryParamRules.find((rule) => rule.regex.test(pathname));
+    if (!rule && cache_query_params === "ignore") {
+      return pathname;
+    }
+
+    const params = [...new URLSearchParams(search)].filter(
+      ([name]) =>
+        name !== DEBUG_QUERY_PARAM &&
+        (rule ? rule.params.includes(name) : !isDroppedQueryParam(name))
+    );
+    if (cache_sort_query_params) {
+      params.sort(([a, aValue], [b, bValue]) =>
+        a !== b
+          ? a < b
+            ? -1
+            : 1
+          : aValue < bValue
+            ? -1
+            : aValue > bValue
+              ? 1
+              : 0
+      );
+    }
+
+    const query = new URLSearchParams(params).toString();
+    return query ? `${pathname}?${query}` : pathname;
+  }
+
+  // Cache key for a client-supplied path that may carry a query string,
+  // e.g. location.pathname + location.search; null if it can't be decoded
+  function getCacheKeyFromPath(path: string): string | null {
+    const queryStart = path.indexOf("?");
+    const pathname = decodePath(
+      queryStart === -1 ? path : path.slice(0, queryStart)
+    );
+    if (pathname === null) {
+      return null;
+    }
+    return getCacheKey(
+      pathname,
+      queryStart === -1 ? "" : path.slice(queryStart)
+    );
+  }
+
+  return { getCacheKey, getCacheKeyFromPath };
+}
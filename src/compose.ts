@@ -0,0 +1,94 @@
+// Building a full page from the SPA shell and a captured fragment. The
+// handler adds the intercept script and caching around composePage()
+import { applyCapturedHead, type CapturedHead } from "./head.js";
+
+// Attributes that mark the element the SPA renders into, most specific first
+const ROOT_ELEMENT_SELECTORS = [
+  'id="root"',
+  'id="app"',
+  'id="__next"',
+  'data-wrapper="app"',
+  'role="main"',
+];
+
+// The element of the shell a fragment is placed into, falling back to <body>
+export function findSpaRootElementRegex(htmlContent: string): RegExp {
+  // Try specific ID/data-attribute selectors first
+  for (const selector of ROOT_ELEMENT_SELECTORS) {
+    const regex = new RegExp(
+      `<(\\w+)[^>]*?${selector}[^>]*?>[\\s\\S]*?<\\/\\1>`,
+      "i"
+    );
+    if (regex.test(htmlContent)) {
+      return regex;
+    }
+  }
+  console.warn(
+    "Sterad: No specific SPA root element found (e.g., #root, #app). Falling back to <body> replacement."
+  );
+  // The tag name is captured like the selector patterns do, for composePage()
+  return /<(body)[^>]*?>[\s\S]*?<\/body>/i;
+}
+
+// Place a fragment inside the shell's root element and swap in the page's
+// title and head tags
+export function composePage(
+  shellHtml: string,
+  rootElementRegex: RegExp,
+  fragment: string,
+  page: { title: string; head?: CapturedHead }
+): string {
+  let finalHtml = shellHtml;
+  // Swap in the page's own head tags before the fragment goes in
+  if (page.head) {
+    finalHtml = applyCapturedHead(finalHtml, page.head);
+  }
+  // Replace the content within the identified root element
+  // We use a replacer function to preserve the opening and closing tags
+  finalHtml = finalHtml.replace(rootElementRegex, (match, tagName) => {
+    // Reconstruct the opening tag to ensure all original attributes are kept
+    const openingTagMatch = match.match(new RegExp(`<${tagName}[^>]*?>`, "i"));
+    const openingTag = openingTagMatch ? openingTagMatch[0] : `<${tagName}>`; // Fallback if regex fails to capture full opening tag (unlikely with current regex)
+    return `${openingTag}${fragment}</${tagName}>`;
+  });
+  // Update title if provided
+  if (page.title) {
+    const title = page.title
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;");
+    finalHtml = finalHtml.replace(
+      /<title>.*?<\/title>/i,
+      () => `<title>${title}</title>`
+    );
+  }
+  return finalHtml;
+}
+
+// The content of a composed page's root element, picked the way
+// findSpaRootElementRegex() picks it. Nested elements with the same tag name
+// are balanced, which the lazy pattern above doesn't do. null when the root
+// element isn't closed
+export function extractRootFragment(html: string): string | null {
+  let opening: RegExpExecArray | null = null;
+  for (const selector of ROOT_ELEMENT_SELECTORS) {
+    opening = new RegExp(`<(\\w+)[^>]*?${selector}[^>]*?>`, "i").exec(html);
+    if (opening) break;
+  }
+  opening ??= /<(body)[^>]*?>/i.exec(html);
+  if (!opening) {
+    return null;
+  }
+
+  const start = opening.index + opening[0].length;
+  const tags = new RegExp(`<(\\/?)${opening[1]}\\b[^>]*>`, "gi");
+  tags.lastIndex = start;
+  let depth = 1;
+  for (let tag = tags.exec(html); tag; tag = tags.exec(html)) {
+    depth += tag[1] ? -1 : 1;
+    if (depth === 0) {
+      return html.slice(start, tag.index);
+    }
+  }
+  return null;
+}
@@ -0,0 +1,444 @@
+import { existsSync } from "fs";
+import { join } from "path";
+import {
+  DEFAULT_ALLOWED_ATTRIBUTES,
+  DEFAULT_ALLOWED_CSS_PROPERTIES,
+  DEFAULT_ALLOWED_URL_SCHEMES,
+} from "./sanitizer.js";
+import { detectRuntime, type Runtime } from "./runtime.js";
+
+// --- Configuration ---
+// Define the structure for our configuration.
+export interface Config {
+  spa_dist: string;
+  cache_dir?: string; // Always set to <spa_dist>/.sterad__cache
+  port?: number; // Required by the CLI, unused when embedding the handler
+  cache_routes: string[];
+  not_cache_routes?: string[]; // Optional not cache routes
+  memory_cache_limit?: number;
+  memory_cache_max_bytes?: number; // Memory budget for cached snapshots in bytes
+  static_cache_max_bytes?: number; // Memory budget for cached static assets in bytes
+  static_cache_max_file_bytes?: number; // Larger static files are always read from disk
+  serve_cached_to?: "crawlers_only" | "all_clients"; // Optional serving mode
+  max_content_length?: number; // Maximum HTML content length in bytes
+  max_title_length?: number; // Maximum title length
+  allowed_tags?: string[]; // Allowed HTML tags
+  max_tag_ratio?: number; // Maximum ratio of tags to content
+  intercept_script?: string; // Optional path to intercept script
+  cache_ttl?: number; // Seconds a cached snapshot stays fresh (0 = never expires)
+  cache_ttl_routes?: Record<string, number>; // Per route pattern TTL overrides
+  metrics_enabled?: boolean; // Expose Prometheus metrics at /__sterad_metrics
+  metrics_require_auth?: boolean; // Require an admin JWT to scrape metrics
+  allowed_attributes?: Record<string, string[]>; // Allowed attributes per tag ("*" = all tags)
+  allowed_url_schemes?: string[]; // Schemes allowed in href/src/srcset
+  allow_style_attributes?: boolean; // Keep inline style attributes
+  allowed_css_properties?: string[]; // CSS properties kept in style attributes
+  capture_token_ttl?: number; // Seconds a capture token issued with the shell stays valid
+  capture_quorum?: number; // Matching captures from distinct clients required before caching
+  capture_quorum_window?: number; // Seconds submissions count towards the quorum
+  trust_proxy?: boolean; // Take the client IP from X-Forwarded-For
+  trusted_proxy_hops?: number; // Proxies in front of Sterad that append to X-Forwarded-For
+  capture_rate_limit?: number; // Captures per minute per client IP (0 = unlimited)
+  capture_rate_burst?: number; // Captures a client IP can send in a burst
+  capture_path_cooldown?: number; // Seconds a path ignores captures after being cached
+  cache_query_params?: "ignore" | "keep"; // Whether query params are part of cache keys
+  cache_query_params_routes?: Record<string, string[]>; // Per route pattern param allowlists
+  cache_drop_query_params?: string[]; // Params never part of a cache key ("utm_*" = prefix)
+  cache_sort_query_params?: boolean; // Sort params so their order doesn't matter
+  max_disk_cache_bytes?: number; // Disk cache size budget in bytes (0 = unlimited)
+  max_disk_cache_entries?: number; // Disk cache entry budget (0 = unlimited)
+  disk_cache_sweep_interval?: number; // Seconds between background eviction sweeps
+  error_page?: string; // Optional path to an HTML page served with 500 responses
+  security_headers?: Record<string, string>; // Response headers ("" removes a default)
+  security_headers_routes?: Record<string, Record<string, string>>; // Per route pattern header overrides
+  csp_nonce?: boolean; // Allow Sterad's inline scripts by nonce/hash instead of 'unsafe-inline'
+  debug_headers?: boolean; // Add X-Sterad-* diagnostics headers to every page response
+  hot_reload?: boolean; // Reload sterad.toml and index.html when they change (default: with a config file)
+}
+
+// Fill in defaults on a copy of the config and collect every problem with it,
+// in the order the settings are checked
+function checkConfig(input: Config): { config: Config; errors: string[] } {
+  const config = structuredClone(input);
+  const errors: string[] = [];
+
+  // Basic validation
+  if (
+    !config.spa_dist ||
+    typeof config.spa_dist !== "string" ||
+    !Array.isArray(config.cache_routes)
+  ) {
+    errors.push("Missing essential configuration in sterad.toml");
+  } else {
+    // Set the cache_dir relative to spa_dist as requested.
+    config.cache_dir = join(config.spa_dist, ".sterad__cache");
+  }
+
+  // Initialize not_cache_routes if not provided
+  if (!config.not_cache_routes) {
+    config.not_cache_routes = [];
+  }
+
+  // Initialize serve_cached_to if not provided
+  if (!config.serve_cached_to) {
+    config.serve_cached_to = "crawlers_only";
+  }
+
+  // Initialize trust boundary validation settings
+  if (!config.max_content_length) {
+    config.max_content_length = 1024 * 1024; // 1MB default
+  }
+  if (!config.max_title_length) {
+    config.max_title_length = 200; // 200 chars default
+  }
+  if (!config.allowed_tags) {
+    config.allowed_tags = [
+      "div",
+      "span",
+      "p",
+      "h1",
+      "h2",
+      "h3",
+      "h4",
+      "h5",
+      "h6",
+      "a",
+      "img",
+      "ul",
+      "ol",
+      "li",
+      "br",
+      "strong",
+      "em",
+      "b",
+      "i",
+      "section",
+      "article",
+      "header",
+      "footer",
+      "nav",
+      "main",
+      "table",
+      "tr",
+      "td",
+      "th",
+      "thead",
+      "tbody",
+      "tfoot",
+      "form",
+      "input",
+      "button",
+      "label",
+      "select",
+      "option",
+      "textarea",
+      "hr",
+    ];
+  }
+  if (!config.max_tag_ratio) {
+    config.max_tag_ratio = 0.7; // Max 70% tags to content ratio
+  }
+  if (!config.cache_ttl) {
+    config.cache_ttl = 0; // Snapshots never expire by default
+  }
+  if (typeof config.cache_ttl !== "number" || config.cache_ttl < 0) {
+    errors.push(
+      'Invalid "cache_ttl" in sterad.toml. Must be a non-negative number of seconds.'
+    );
+  }
+  if (!config.cache_ttl_routes) {
+    config.cache_ttl_routes = {};
+  }
+  if (!config.allowed_attributes) {
+    config.allowed_attributes = { ...DEFAULT_ALLOWED_ATTRIBUTES };
+  }
+  for (const [tag, attributes] of Object.entries(config.allowed_attributes)) {
+    if (
+      !Array.isArray(attributes) ||
+      attributes.some((attr) => typeof attr !== "string")
+    ) {
+      errors.push(
+        `Invalid "${tag}" in [allowed_attributes]. Must be an array of attribute names.`
+      );
+      continue;
+    }
+    config.allowed_attributes[tag] = attributes.map((attr) =>
+      attr.toLowerCase()
+    );
+  }
+  if (!config.allowed_url_schemes) {
+    config.allowed_url_schemes = DEFAULT_ALLOWED_URL_SCHEMES;
+  }
+  if (!Array.isArray(config.allowed_url_schemes)) {
+    errors.push(
+      'Invalid "allowed_url_schemes" in sterad.toml. Must be an array of schemes.'
+    );
+  } else {
+    // Accept both "https" and "https:"
+    config.allowed_url_schemes = config.allowed_url_schemes.map((scheme) =>
+      String(scheme).toLowerCase().replace(/:$/, "")
+    );
+  }
+  if (config.allow_style_attributes === undefined) {
+    config.allow_style_attributes = false;
+  }
+  if (!config.allowed_css_properties) {
+    config.allowed_css_properties = DEFAULT_ALLOWED_CSS_PROPERTIES;
+  }
+  if (!config.capture_token_ttl) {
+    config.capture_token_ttl = 900; // 15 minutes default
+  }
+  if (
+    typeof config.capture_token_ttl !== "number" ||
+    config.capture_token_ttl <= 0
+  ) {
+    errors.push(
+      'Invalid "capture_token_ttl" in sterad.toml. Must be a positive number of seconds.'
+    );
+  }
+  if (!config.capture_quorum) {
+    config.capture_quorum = 1; // Cache the first valid capture by default
+  }
+  if (!Number.isInteger(config.capture_quorum) || config.capture_quorum < 1) {
+    errors.push(
+      'Invalid "capture_quorum" in sterad.toml. Must be a positive integer.'
+    );
+  }
+  if (!config.capture_quorum_window) {
+    config.capture_quorum_window = 3600; // 1 hour default
+  }
+  if (
+    typeof config.capture_quorum_window !== "number" ||
+    config.capture_quorum_window <= 0
+  ) {
+    errors.push(
+      'Invalid "capture_quorum_window" in sterad.toml. Must be a positive number of seconds.'
+    );
+  }
+  if (config.trust_proxy === undefined) {
+    config.trust_proxy = false;
+  }
+  if (config.trusted_proxy_hops === undefined) {
+    config.trusted_proxy_hops = 1;
+  }
+  if (
+    !Number.isInteger(config.trusted_proxy_hops) ||
+    config.trusted_proxy_hops < 1
+  ) {
+    errors.push(
+      'Invalid "trusted_proxy_hops" in sterad.toml. Must be a whole number of at least 1.'
+    );
+  }
+  if (config.capture_rate_limit === undefined) {
+    config.capture_rate_limit = 30;
+  }
+  if (
+    typeof config.capture_rate_limit !== "number" ||
+    config.capture_rate_limit < 0
+  ) {
+    errors.push(
+      'Invalid "capture_rate_limit" in sterad.toml. Must be a non-negative number of captures per minute.'
+    );
+  }
+  if (!config.capture_rate_burst) {
+    config.capture_rate_burst = 10;
+  }
+  if (
+    typeof config.capture_rate_burst !== "number" ||
+    config.capture_rate_burst < 1
+  ) {
+    errors.push(
+      'Invalid "capture_rate_burst" in sterad.toml. Must be a number of at least 1.'
+    );
+  }
+  if (config.capture_path_cooldown === undefined) {
+    config.capture_path_cooldown = 10;
+  }
+  if (
+    typeof config.capture_path_cooldown !== "number" ||
+    config.capture_path_cooldown < 0
+  ) {
+    errors.push(
+      'Invalid "capture_path_cooldown" in sterad.toml. Must be a non-negative number of seconds.'
+    );
+  }
+  if (!config.cache_query_params) {
+    config.cache_query_params = "ignore";
+  }
+  if (!["ignore", "keep"].includes(config.cache_query_params)) {
+    errors.push(
+      'Invalid "cache_query_params" in sterad.toml. Must be "ignore" or "keep".'
+    );
+  }
+  if (!config.cache_query_params_routes) {
+    config.cache_query_params_routes = {};
+  }
+  for (const [pattern, params] of Object.entries(
+    config.cache_query_params_routes
+  )) {
+    if (
+      !Array.isArray(params) ||
+      params.some((param) => typeof param !== "string")
+    ) {
+      errors.push(
+        `Invalid "${pattern}" in [cache_query_params_routes]. Must be an array of query param names.`
+      );
+    }
+  }
+  if (!config.cache_drop_query_params) {
+    config.cache_drop_query_params = ["utm_*", "gclid", "fbclid"];
+  }
+  if (!Array.isArray(config.cache_drop_query_params)) {
+    errors.push(
+      'Invalid "cache_drop_query_params" in sterad.toml. Must be an array of query param names.'
+    );
+  }
+  if (config.cache_sort_query_params === undefined) {
+    config.cache_sort_query_params = true;
+  }
+  for (const key of [
+    "max_disk_cache_bytes",
+    "max_disk_cache_entries",
+  ] as const) {
+    if (!config[key]) {
+      config[key] = 0; // Unlimited by default
+    }
+    if (typeof config[key] !== "number" || config[key] < 0) {
+      errors.push(
+        `Invalid "${key}" in sterad.toml. Must be a non-negative number (0 = unlimited).`
+      );
+    }
+  }
+  if (!config.disk_cache_sweep_interval) {
+    config.disk_cache_sweep_interval = 60;
+  }
+  if (
+    typeof config.disk_cache_sweep_interval !== "number" ||
+    config.disk_cache_sweep_interval <= 0
+  ) {
+    errors.push(
+      'Invalid "disk_cache_sweep_interval" in sterad.toml. Must be a positive number of seconds.'
+    );
+  }
+  if (
+    config.error_page !== undefined &&
+    (typeof config.error_page !== "string" || !existsSync(config.error_page))
+  ) {
+    errors.push(
+      'Invalid "error_page" in sterad.toml. Must be the path to an existing HTML file.'
+    );
+  }
+  if (!config.security_headers) {
+    config.security_headers = {};
+  }
+  if (!config.security_headers_routes) {
+    config.security_headers_routes = {};
+  }
+  for (const [table, headers] of [
+    ["security_headers", config.security_headers],
+    ...Object.entries(config.security_headers_routes).map(
+      ([pattern, headers]) => [`security_headers_routes."${pattern}"`, headers]
+    ),
+  ] as [string, Record<string, unknown>][]) {
+    if (!headers || typeof headers !== "object" || Array.isArray(headers)) {
+      errors.push(
+        `Invalid [${table}] in sterad.toml. Must be a table of header names to values.`
+      );
+      continue;
+    }
+    for (const [name, value] of Object.entries(headers)) {
+      if (
+        !/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(name) ||
+        typeof value !== "string" ||
+        /[\r\n]/.test(value)
+      ) {
+        errors.push(
+          `Invalid header "${name}" in [${table}]. Must be a header name with a single-line string value.`
+        );
+      }
+    }
+  }
+  if (config.csp_nonce === undefined) {
+    config.csp_nonce = false;
+  }
+  if (config.debug_headers === undefined) {
+    config.debug_headers = false;
+  }
+  if (config.metrics_enabled === undefined) {
+    config.metrics_enabled = false;
+  }
+  if (config.metrics_require_auth === undefined) {
+    config.metrics_require_auth = true;
+  }
+  for (const [pattern, ttl] of Object.entries(config.cache_ttl_routes)) {
+    if (typeof ttl !== "number" || ttl < 0) {
+      errors.push(
+        `Invalid TTL for "${pattern}" in [cache_ttl_routes]. Must be a non-negative number of seconds.`
+      );
+    }
+  }
+  if (
+    config.port !== undefined &&
+    (typeof config.port !== "number" || config.port <= 0 || config.port > 65535)
+  ) {
+    errors.push(
+      'Invalid "port" in sterad.toml. Must be a positive number (1-65535).'
+    );
+  }
+  if (config.memory_cache_limit === undefined) {
+    config.memory_cache_limit = 100;
+  }
+  if (
+    typeof config.memory_cache_limit !== "number" ||
+    config.memory_cache_limit <= 0
+  ) {
+    config.memory_cache_limit = 100; // Default if not valid
+    console.warn(
+      'Invalid "memory_cache_limit" in sterad.toml. Defaulting to 100.'
+    );
+  }
+  const memoryBudgetDefaults = {
+    memory_cache_max_bytes: 64 * 1024 * 1024,
+    static_cache_max_bytes: 64 * 1024 * 1024,
+    static_cache_max_file_bytes: 1024 * 1024,
+  };
+  for (const [key, fallback] of Object.entries(memoryBudgetDefaults) as [
+    keyof typeof memoryBudgetDefaults,
+    number,
+  ][]) {
+    if (config[key] === undefined) {
+      config[key] = fallback;
+    }
+    if (typeof config[key] !== "number" || config[key] <= 0) {
+      errors.push(
+        `Invalid "${key}" in sterad.toml. Must be a positive number of bytes.`
+      );
+    }
+  }
+
+  return { config, errors };
+}
+
+// Validate a config, filling in defaults. Works on a copy and throws the first
+// problem on invalid config, so a reload can keep the running config
+export function validateConfig(input: Config): Config {
+  const { config, errors } = checkConfig(input);
+  if (errors.length > 0) {
+    throw new Error(errors[0]);
+  }
+  return config;
+}
+
+// Every problem with a config rather than just the first
+export function listConfigErrors(input: Config): string[] {
+  return checkConfig(input).errors;
+}
+
+// Read and validate a sterad.toml file
+export async function loadConfigFile(
+  path: string,
+  runtime: Runtime = detectRuntime()
+): Promise<Config> {
+  const configContent = await runtime.readText(path);
+  return validateConfig(runtime.parseToml(configContent) as Config);
+}
@@ -0,0 +1,207 @@
+// Layout of the snapshot cache under <spa_dist>/.sterad__cache. The handler
+// and the offline `sterad cache` commands both go through
+// createDiskCacheStore(), so they agree on where an entry lives and which
+// files belong to it
+import { readdir, rm, stat } from "fs/promises";
+import { createHash } from "crypto";
+import { join, resolve } from "path";
+import type { CapturedHead } from "./head.js";
+import { compileCachePatterns } from "./patterns.js";
+import type { Runtime } from "./runtime.js";
+
+// Metadata recorded alongside every cached snapshot
+export interface CacheEntryMetadata {
+  path: string;
+  format: "fragment"; // Entries hold the captured root content only
+  capturedAt: number; // Unix timestamp (ms)
+  contentHash: string; // SHA-256 of the sanitized fragment
+  title: string;
+  size: number; // Bytes on disk
+  source: {
+    userAgent: "bot" | "human";
+    manual: boolean;
+  };
+  shellFingerprint: string; // SHA-256 of the index.html the entry was built from
+  head?: CapturedHead; // Validated head tags swapped into the shell
+  status?: number; // HTTP status declared by the SPA, served to bots
+  location?: string; // Redirect target for 3xx statuses
+  composedFrom?: string; // Hash of the shell and capture the .br/.gz files were composed from
+}
+
+export interface CacheEntry {
+  meta: CacheEntryMetadata;
+  diskCacheFilePath: string;
+}
+
+export type ContentCoding = "br" | "gzip";
+
+// Codings in order of preference when the client accepts several equally
+export const CONTENT_CODINGS: ContentCoding[] = ["br", "gzip"];
+export const CONTENT_CODING_EXTENSIONS: Record<ContentCoding, string> = {
+  br: ".br",
+  gzip: ".gz",
+};
+
+// Entries without metadata are whole documents from older Sterad versions,
+// which reference hashed JS/CSS bundles that may no longer exist
+export function isCacheEntryValid(
+  meta: CacheEntryMetadata | null | undefined
+): meta is CacheEntryMetadata {
+  return !!meta && meta.format === "fragment";
+}
+
+// Count, size and age range of a list of entries sorted newest first
+export function summarizeCacheEntries(entries: CacheEntryMetadata[]) {
+  const summarize = (meta?: CacheEntryMetadata) =>
+    meta
+      ? {
+          path: meta.path,
+          capturedAt: new Date(meta.capturedAt).toISOString(),
+        }
+      : null;
+
+  return {
+    count: entries.length,
+    bytes: entries.reduce((total, meta) => total + meta.size, 0),
+    newest: summarize(entries[0]),
+    oldest: summarize(entries[entries.length - 1]),
+  };
+}
+
+export function createDiskCacheStore(cacheDir: string, runtime: Runtime) {
+  const cacheDirAbsolute = resolve(cacheDir);
+
+  // Entries are named after a hash of the cache key, so distinct keys never
+  // share a file, long URLs stay within filename limits and no part of the
+  // key reaches the file system. The first two hex characters shard entries
+  // into subdirectories; the key itself is kept in the metadata sidecar
+  function getDiskCacheFilePath(cacheKey: string): string {
+    const hash = createHash("sha256").update(cacheKey).digest("hex");
+    return join(cacheDirAbsolute, hash.slice(0, 2), `${hash}.html`);
+  }
+
+  // The metadata sidecar lives next to the cached HTML file
+  function getMetadataFilePath(diskCacheFilePath: string): string {
+    return diskCacheFilePath.replace(/\.html$/, ".meta.json");
+  }
+
+  // Compressed variants of the composed page live next to it as well
+  function getCompressedFilePath(
+    diskCacheFilePath: string,
+    coding: ContentCoding
+  ): string {
+    return diskCacheFilePath + CONTENT_CODING_EXTENSIONS[coding];
+  }
+
+  // Every file that belongs to an entry; variants may be missing
+  function getCacheEntryFilePaths(diskCacheFilePath: string): string[] {
+    return [
+      diskCacheFilePath,
+      getMetadataFilePath(diskCacheFilePath),
+      ...CONTENT_CODINGS.map((coding) =>
+        getCompressedFilePath(diskCacheFilePath, coding)
+      ),
+    ];
+  }
+
+  async function getCacheEntryBytes(
+    diskCacheFilePath: string
+  ): Promise<number> {
+    let bytes = 0;
+    for (const filePath of getCacheEntryFilePaths(diskCacheFilePath)) {
+      bytes += await stat(filePath).then(
+        ({ size }) => size,
+        () => 0
+      );
+    }
+    return bytes;
+  }
+
+  async function readCacheMetadata(
+    diskCacheFilePath: string
+  ): Promise<CacheEntryMetadata | null> {
+    try {
+      const metaFilePath = getMetadataFilePath(diskCacheFilePath);
+      if (!(await runtime.stat(metaFilePath))) {
+        return null;
+      }
+      return JSON.parse(
+        await runtime.readText(metaFilePath)
+      ) as CacheEntryMetadata;
+    } catch (error) {
+      console.warn(
+        `Sterad: Failed to read cache metadata for ${diskCacheFilePath}: ${error}`
+      );
+      return null;
+    }
+  }
+
+  // Read every entry that has a metadata sidecar, newest first
+  async function listCacheEntries(): Promise<CacheEntry[]> {
+    const entries: CacheEntry[] = [];
+    const files = await readdir(cacheDirAbsolute, { recursive: true });
+    for (const fileName of files) {
+      if (!fileName.endsWith(".meta.json")) continue;
+      const diskCacheFilePath = join(
+        cacheDirAbsolute,
+        fileName.replace(/\.meta\.json$/, ".html")
+      );
+      const meta = await readCacheMetadata(diskCacheFilePath);
+      if (isCacheEntryValid(meta)) {
+        entries.push({ meta, diskCacheFilePath });
+      }
+    }
+    return entries.sort((a, b) => b.meta.capturedAt - a.meta.capturedAt);
+  }
+
+  async function deleteCacheEntryFiles(
+    diskCacheFilePath: string
+  ): Promise<void> {
+    for (const filePath of getCacheEntryFilePaths(diskCacheFilePath)) {
+      await rm(filePath, { force: true });
+    }
+  }
+
+  // Remove entries whose path matches a glob, or everything without one.
+  // onPurge runs before an entry's files are removed, so callers can drop
+  // whatever they hold in memory for it
+  async function purgeCacheFiles(
+    pattern?: string,
+    onPurge?: (entry: CacheEntry) => void
+  ): Promise<number> {
+    const matcher = pattern ? compileCachePatterns([pattern]) : null;
+    let purged = 0;
+
+    for (const entry of await listCacheEntries()) {
+      if (matcher && !matcher.test(entry.meta.path)) continue;
+      onPurge?.(entry);
+      await deleteCacheEntryFiles(entry.diskCacheFilePath);
+      purged++;
+    }
+
+    if (!matcher) {
+      // Also sweep files without a sidecar and any emptied shard directories
+      for (const fileName of await readdir(cacheDirAbsolute)) {
+        await rm(join(cacheDirAbsolute, fileName), {
+          recursive: true,
+          force: true,
+        });
+      }
+    }
+
+    return purged;
+  }
+
+  return {
+    cacheDirAbsolute,
+    getDiskCacheFilePath,
+    getMetadataFilePath,
+    getCompressedFilePath,
+    getCacheEntryFilePaths,
+    getCacheEntryBytes,
+    readCacheMetadata,
+    listCacheEntries,
+    deleteCacheEntryFiles,
+    purgeCacheFiles,
+  };
+}
@@ -0,0 +1,3366 @@
+// Sterad as a request handler. createSteradHandler() takes a Config and
+// returns a fetch-style handler with lifecycle methods; every piece of state
+// lives in its closure, so several instances can run in one process
+import { existsSync, mkdirSync, watch, type FSWatcher } from "fs";
+import { readdir, rename, rm, stat, utimes } from "fs/promises";
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { brotliCompress, constants as zlibConstants, gunzip, gzip } from "zlib";
+import { promisify } from "util";
+import { basename, join, dirname, extname, resolve } from "path";
+import QuickLRU from "quick-lru";
+import {
+  decodeEntities,
+  parseHtmlFragment,
+  type ParsedFragment,
+  type SanitizerPolicy,
+} from "./sanitizer.js";
+import { validateCapturedHead, type CapturedHead } from "./head.js";
+import {
+  loadJWTConfig,
+  validateBearerToken,
+  type AdminScope,
+  type JWTConfig,
+} from "./admin-token.js";
+import { ByteLru } from "./byte-lru.js";
+import {
+  composePage,
+  extractRootFragment,
+  findSpaRootElementRegex,
+} from "./compose.js";
+import { createCacheKeys, DEBUG_QUERY_PARAM } from "./cache-key.js";
+import {
+  CONTENT_CODINGS,
+  CONTENT_CODING_EXTENSIONS,
+  createDiskCacheStore,
+  isCacheEntryValid,
+  summarizeCacheEntries,
+  type CacheEntryMetadata,
+  type ContentCoding,
+} from "./disk-cache.js";
+import {
+  getClientIp,
+  getEncodedEtag,
+  matchesEtag,
+  negotiateEncoding,
+} from "./http.js";
+import { decodePath, isPathSafe, sanitizePath } from "./paths.js";
+import { compileCachePatterns, createSafeRegex } from "./patterns.js";
+import {
+  listConfigErrors,
+  loadConfigFile,
+  validateConfig,
+  type Config,
+} from "./config.js";
+import {
+  detectRuntime,
+  type RequestIPProvider,
+  type Runtime,
+} from "./runtime.js";
+
+export { listConfigErrors, loadConfigFile, validateConfig, type Config };
+export { detectRuntime, type RequestIPProvider, type Runtime };
+
+// Load the secret used to sign capture tokens. A dedicated CAPTURE_SECRET
+// wins, otherwise the admin JWT secret is reused
+function loadCaptureSecret(jwtConfig: JWTConfig | null): string {
+  const secret = process.env["CAPTURE_SECRET"];
+
+  if (secret) {
+    if (secret.length < 32) {
+      throw new Error(
+        "CAPTURE_SECRET must be at least 32 characters long for security."
+      );
+    }
+    return secret;
+  }
+
+  if (jwtConfig) {
+    return jwtConfig.secret;
+  }
+
+  console.warn(
+    "Sterad: Neither CAPTURE_SECRET nor JWT_SECRET found in environment. Using a random capture secret; capture tokens will not survive restarts or be shared between instances."
+  );
+  return randomBytes(32).toString("hex");
+}
+
+// Defaults, overridden by [security_headers] and [security_headers_routes]
+const DEFAULT_SECURITY_HEADERS: Record<string, string> = {
+  "Content-Security-Policy":
+    "default-src 'self'; script-src 'self' 'unsafe-inline'",
+  "X-Content-Type-Options": "nosniff",
+  "X-Frame-Options": "DENY",
+  "Strict-Transport-Security": "max-age=63072000",
+};
+
+// Performance-optimized cache headers for different content types
+const getCacheHeaders = (
+  isStatic: boolean,
+  isBot: boolean,
+  baseHeaders: Record<string, string>
+) => {
+  if (isStatic) {
+    // Static assets get long cache times
+    return {
+      ...baseHeaders,
+      "Cache-Control": "public, max-age=31536000, immutable", // 1 year
+    };
+  } else if (isBot) {
+    // Cached content for bots gets moderate cache time
+    return {
+      ...baseHeaders,
+      "Cache-Control": "public, max-age=3600, s-maxage=86400", // 1 hour browser, 1 day CDN
+    };
+  } else {
+    // SPA content gets no cache to ensure fresh app loads
+    return {
+      ...baseHeaders,
+      "Cache-Control": "no-cache, no-store, must-revalidate",
+      Pragma: "no-cache",
+      Expires: "0",
+    };
+  }
+};
+
+// --- Security headers ---
+
+// Apply overrides to a header set; an empty value removes the header
+function mergeHeaders(
+  base: Record<string, string>,
+  overrides: Record<string, string>
+): Record<string, string> {
+  const merged = { ...base };
+  for (const [name, value] of Object.entries(overrides)) {
+    // Header names are case-insensitive, so drop any differently cased default
+    for (const existing of Object.keys(merged)) {
+      if (existing.toLowerCase() === name.toLowerCase()) {
+        delete merged[existing];
+      }
+    }
+    if (value !== "") {
+      merged[name] = value;
+    }
+  }
+  return merged;
+}
+
+// Add sources to the policy's script-src directive. Without one, script-src
+// is created from default-src; without either, scripts aren't restricted
+function withScriptSources(
+  headers: Record<string, string>,
+  sources: string[]
+): Record<string, string> {
+  const policyName = Object.keys(headers).find(
+    (name) => name.toLowerCase() === "content-security-policy"
+  );
+  if (!policyName || sources.length === 0) {
+    return headers;
+  }
+
+  const directives = headers[policyName]!.split(";")
+    .map((directive) => directive.trim())
+    .filter(Boolean);
+  const directiveIndex = (name: string) =>
+    directives.findIndex(
+      (directive) => directive.toLowerCase().split(/\s+/)[0] === name
+    );
+  const scriptSrc = directiveIndex("script-src");
+  const defaultSrc = directiveIndex("default-src");
+  if (scriptSrc !== -1) {
+    directives[scriptSrc] += ` ${sources.join(" ")}`;
+  } else if (defaultSrc !== -1) {
+    const fallback = directives[defaultSrc]!.slice("default-src".length).trim();
+    directives.push(`script-src ${fallback} ${sources.join(" ")}`);
+  } else {
+    return headers;
+  }
+  return { ...headers, [policyName]: directives.join("; ") };
+}
+
+export interface SteradHandlerOptions {
+  configPath?: string; // File the config came from; reloads read it again
+  runtime?: Runtime; // Defaults to the runtime Sterad is running on
+}
+
+export interface SteradStats {
+  count: number;
+  bytes: number;
+  newest: { path: string; capturedAt: string } | null;
+  oldest: { path: string; capturedAt: string } | null;
+  memory: {
+    snapshots: { entries: number; bytes: number };
+    staticAssets: { entries: number; bytes: number };
+  };
+  disk: {
+    entries: number;
+    bytes: number;
+    maxEntries: number | null;
+    maxBytes: number | null;
+    evictions: number;
+    lastEvictedAt: string | null;
+  };
+}
+
+export interface SteradHandler {
+  (request: Request, server?: RequestIPProvider): Promise<Response>;
+  close(): Promise<void>; // Stop timers and watchers
+  purge(pattern?: string): Promise<number>; // Purges everything without a pattern
+  stats(): Promise<SteradStats>;
+  reload(next?: Config): Promise<void>; // Re-read the config, index.html and error_page
+}
+
+// Validates the config, loads the shell and the disk cache index, then starts
+// the background sweep. Throws instead of exiting on invalid config
+export async function createSteradHandler(
+  input: Config,
+  options: SteradHandlerOptions = {}
+): Promise<SteradHandler> {
+  const { configPath, runtime = detectRuntime() } = options;
+  let config = validateConfig(input);
+
+  // Only take effect on restart
+  const { spa_dist, port, hot_reload } = config;
+  // Servers started from a config file watch it by default; handlers built
+  // from a config object don't, so they don't hold the host process open
+  const watchFiles = hot_reload ?? configPath !== undefined;
+  const cache_dir = config.cache_dir!;
+
+  // Reassigned as a whole when the config is reloaded
+  let {
+    cache_routes,
+    not_cache_routes,
+    static_cache_max_file_bytes,
+    serve_cached_to,
+    max_content_length,
+    max_title_length,
+    max_tag_ratio,
+    intercept_script,
+    cache_ttl,
+    cache_ttl_routes,
+    metrics_enabled,
+    metrics_require_auth,
+    capture_token_ttl,
+    capture_quorum,
+    capture_quorum_window,
+    trust_proxy,
+    trusted_proxy_hops,
+    capture_rate_limit,
+    capture_rate_burst,
+    capture_path_cooldown,
+    max_disk_cache_bytes,
+    max_disk_cache_entries,
+    disk_cache_sweep_interval,
+    security_headers,
+    security_headers_routes,
+    csp_nonce,
+    debug_headers,
+  } = config;
+
+  // Sent with every response; pages and assets add route overrides on top
+  let securityHeaders = mergeHeaders(
+    DEFAULT_SECURITY_HEADERS,
+    security_headers!
+  );
+
+  // Per-route header overrides, checked in declaration order (first match wins)
+  function compileSecurityHeaderRules(
+    routes: Record<string, Record<string, string>>,
+    globalHeaders: Record<string, string>
+  ) {
+    return Object.entries(routes).map(([pattern, headers]) => ({
+      regex: compileCachePatterns([pattern]),
+      headers: mergeHeaders(globalHeaders, headers),
+    }));
+  }
+  let SECURITY_HEADER_RULES = compileSecurityHeaderRules(
+    security_headers_routes!,
+    securityHeaders
+  );
+
+  function getSecurityHeaders(path: string): Record<string, string> {
+    for (const rule of SECURITY_HEADER_RULES) {
+      if (rule.regex.test(path)) return rule.headers;
+    }
+    return securityHeaders;
+  }
+
+  // Load JWT configuration
+  const jwtConfig = loadJWTConfig();
+  if (jwtConfig) {
+    console.log("Sterad: JWT authentication enabled for admin routes.");
+  } else {
+    console.log(
+      "Sterad: JWT authentication disabled. Admin routes will be protected by default denial."
+    );
+  }
+
+  // --- Capture tokens ---
+  // Every shell that can submit a capture carries a short-lived token bound to
+  // the cache key it was served for, so captures can't be posted for arbitrary
+  // paths or query strings
+  const captureSecret = loadCaptureSecret(jwtConfig);
+
+  // Marker left in the shell where the token is filled in per response
+  const CAPTURE_TOKEN_PLACEHOLDER = "<!--sterad-capture-token-->";
+
+  function signCaptureToken(cacheKey: string, expiresAt: number): string {
+    return createHmac("sha256", captureSecret)
+      .update(`sterad-capture:${cacheKey}:${expiresAt}`)
+      .digest("base64url");
+  }
+
+  // Token format: "<expiry in ms>.<signature>"
+  function createCaptureToken(cacheKey: string): string {
+    const expiresAt = Date.now() + capture_token_ttl! * 1000;
+    return `${expiresAt}.${signCaptureToken(cacheKey, expiresAt)}`;
+  }
+
+  function verifyCaptureToken(token: unknown, cacheKey: string): boolean {
+    if (typeof token !== "string") {
+      return false;
+    }
+    const [expiry, signature] = token.split(".");
+    const expiresAt = Number(expiry);
+    if (!signature || !Number.isSafeInteger(expiresAt)) {
+      return false;
+    }
+    if (expiresAt < Date.now()) {
+      return false;
+    }
+    const expected = Buffer.from(signCaptureToken(cacheKey, expiresAt));
+    const provided = Buffer.from(signature);
+    return (
+      expected.length === provided.length && timingSafeEqual(expected, provided)
+    );
+  }
+
+  // Fill in the capture token for the served cache key, or strip the marker
+  // when the response should not be able to submit captures
+  function withCaptureToken(html: string, cacheKey: string | null): string {
+    if (!cacheKey) {
+      return html.replace(CAPTURE_TOKEN_PLACEHOLDER, "");
+    }
+    return html.replace(
+      CAPTURE_TOKEN_PLACEHOLDER,
+      `<meta name="sterad-capture-token" content="${createCaptureToken(cacheKey)}">`
+    );
+  }
+
+  // --- Script nonces ---
+  // Injected <script> tags carry a placeholder attribute that becomes a fresh
+  // nonce on every shell response when csp_nonce is enabled
+
+  const SCRIPT_NONCE_PLACEHOLDER = ' nonce="sterad-nonce-placeholder"';
+
+  function withScriptNonce(html: string, nonce: string | null): string {
+    return html.replaceAll(
+      SCRIPT_NONCE_PLACEHOLDER,
+      nonce ? ` nonce="${nonce}"` : ""
+    );
+  }
+
+  // Shell responses get a fresh capture token and, with csp_nonce, a nonce
+  // that the Content-Security-Policy allows
+  function createShellResponse(
+    html: string,
+    path: string,
+    tokenCacheKey: string | null
+  ): Response {
+    const nonce = csp_nonce ? randomBytes(16).toString("base64") : null;
+    const headers = withScriptSources(
+      getSecurityHeaders(path),
+      nonce ? [`'nonce-${nonce}'`] : []
+    );
+    return new Response(
+      withScriptNonce(withCaptureToken(html, tokenCacheKey), nonce),
+      { headers: { "Content-Type": "text/html", ...headers } }
+    );
+  }
+
+  function getSnapshotSecurityHeaders(path: string): Record<string, string> {
+    return withScriptSources(
+      getSecurityHeaders(path),
+      csp_nonce ? [steradApiScriptHash] : []
+    );
+  }
+
+  // --- Capture quorum ---
+  // With capture_quorum > 1 a capture is held as a candidate until enough
+  // distinct clients submit the same content for the path
+
+  // The parts of a capture that have to match for submissions to agree
+  interface CaptureSubmission {
+    title: string;
+    fragment: string;
+    head: CapturedHead;
+    status: CaptureStatus;
+  }
+
+  interface CaptureCandidate {
+    contentHash: string; // Hash of the normalized title, fragment and head
+    title: string;
+    clients: Map<string, number>; // Client IP -> last submission (ms)
+    firstSeen: number;
+  }
+
+  interface PathCandidates {
+    candidates: Map<string, CaptureCandidate>;
+    lastPromoted: { contentHash: string; promotedAt: number } | null;
+  }
+
+  // Candidates only hold hashes; the capture that completes the quorum is the
+  // one written to the cache
+  const MAX_CANDIDATES_PER_PATH = 10;
+  const captureCandidates = new QuickLRU<string, PathCandidates>({
+    maxSize: 1000,
+  });
+
+  // Whitespace differences between renders shouldn't split the vote
+  function normalizedCaptureHash({
+    title,
+    fragment,
+    head,
+    status,
+  }: CaptureSubmission): string {
+    const normalized = fragment
+      .replace(/>\s+</g, "><")
+      .replace(/\s+/g, " ")
+      .trim();
+    return sha256(
+      `${title.trim()}\n${normalized}\n${JSON.stringify({ head, status })}`
+    );
+  }
+
+  // Forget submissions that fell out of the quorum window
+  function pruneCandidates(state: PathCandidates, now: number): void {
+    const cutoff = now - capture_quorum_window! * 1000;
+    for (const [hash, candidate] of state.candidates) {
+      for (const [client, submittedAt] of candidate.clients) {
+        if (submittedAt < cutoff) {
+          candidate.clients.delete(client);
+        }
+      }
+      if (candidate.clients.size === 0) {
+        state.candidates.delete(hash);
+      }
+    }
+    if (state.lastPromoted && state.lastPromoted.promotedAt < cutoff) {
+      state.lastPromoted = null;
+    }
+  }
+
+  // Record a validated capture; returns true once the quorum is reached and the
+  // capture should be written to the cache
+  function recordCaptureCandidate(
+    path: string,
+    submission: CaptureSubmission,
+    client: string
+  ): boolean {
+    const now = Date.now();
+    const contentHash = normalizedCaptureHash(submission);
+
+    let state = captureCandidates.get(path);
+    if (!state) {
+      state = { candidates: new Map(), lastPromoted: null };
+      captureCandidates.set(path, state);
+    }
+    pruneCandidates(state, now);
+
+    let candidate = state.candidates.get(contentHash);
+    if (!candidate) {
+      if (state.candidates.size >= MAX_CANDIDATES_PER_PATH) {
+        // Make room by dropping the oldest competing candidate
+        const [oldest] = [...state.candidates.values()].sort(
+          (a, b) => a.firstSeen - b.firstSeen
+        );
+        state.candidates.delete(oldest!.contentHash);
+      }
+      candidate = {
+        contentHash,
+        title: submission.title,
+        clients: new Map(),
+        firstSeen: now,
+      };
+      state.candidates.set(contentHash, candidate);
+    }
+    candidate.clients.set(client, now);
+
+    if (candidate.clients.size < capture_quorum!) {
+      return false;
+    }
+
+    state.candidates.delete(contentHash);
+    state.lastPromoted = { contentHash, promotedAt: now };
+    return true;
+  }
+
+  // Paths where submissions within the window don't agree on the content
+  function listCaptureDisagreements() {
+    const now = Date.now();
+    const disagreements = [];
+
+    for (const [path, state] of captureCandidates) {
+      pruneCandidates(state, now);
+      const hashes = new Set(state.candidates.keys());
+      if (state.lastPromoted) {
+        hashes.add(state.lastPromoted.contentHash);
+      }
+      if (hashes.size < 2) {
+        continue;
+      }
+
+      disagreements.push({
+        path,
+        lastPromoted: state.lastPromoted && {
+          contentHash: state.lastPromoted.contentHash,
+          promotedAt: new Date(state.lastPromoted.promotedAt).toISOString(),
+        },
+        candidates: [...state.candidates.values()].map((candidate) => {
+          const submissions = [...candidate.clients.values()];
+          return {
+            contentHash: candidate.contentHash,
+            title: candidate.title,
+            submissions: submissions.length,
+            clients: [...candidate.clients.keys()],
+            firstSeen: new Date(candidate.firstSeen).toISOString(),
+            lastSeen: new Date(Math.max(...submissions)).toISOString(),
+          };
+        }),
+      });
+    }
+
+    return disagreements;
+  }
+
+  // --- Capture rate limiting ---
+  // A token bucket per client IP, plus a lease so each path has at most one
+  // capture in flight and a cooldown once it has been cached
+
+  interface RateLimitBucket {
+    tokens: number;
+    updatedAt: number;
+  }
+
+  const captureBuckets = new QuickLRU<string, RateLimitBucket>({
+    maxSize: 10000,
+  });
+  const capturesInFlight = new Set<string>();
+  // Path -> end of its cooldown (ms)
+  const captureCooldowns = new QuickLRU<string, number>({ maxSize: 10000 });
+
+  // Returns 0 when the client may capture, otherwise seconds to wait
+  function consumeCaptureBudget(client: string): number {
+    if (!capture_rate_limit) {
+      return 0;
+    }
+    const now = Date.now();
+    const refillPerMs = capture_rate_limit / 60000;
+    const bucket = captureBuckets.get(client) || {
+      tokens: capture_rate_burst!,
+      updatedAt: now,
+    };
+    bucket.tokens = Math.min(
+      capture_rate_burst!,
+      bucket.tokens + (now - bucket.updatedAt) * refillPerMs
+    );
+    bucket.updatedAt = now;
+    captureBuckets.set(client, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil((1 - bucket.tokens) / refillPerMs / 1000);
+  }
+
+  // Returns 0 when the lease was taken, otherwise seconds to wait
+  function acquireCaptureLease(path: string): number {
+    const cooldownUntil = captureCooldowns.get(path);
+    if (cooldownUntil && cooldownUntil > Date.now()) {
+      return Math.ceil((cooldownUntil - Date.now()) / 1000);
+    }
+    if (capturesInFlight.has(path)) {
+      return 1;
+    }
+    capturesInFlight.add(path);
+    return 0;
+  }
+
+  function releaseCaptureLease(path: string, cached: boolean): void {
+    capturesInFlight.delete(path);
+    if (cached && capture_path_cooldown) {
+      captureCooldowns.set(path, Date.now() + capture_path_cooldown * 1000);
+    }
+  }
+
+  function tooManyCaptures(retryAfter: number): Response {
+    return new Response("Too Many Requests", {
+      status: 429,
+      headers: { ...securityHeaders, "Retry-After": String(retryAfter) },
+    });
+  }
+
+  // --- Metrics ---
+  // Minimal Prometheus registry; label sets are serialized as the map key
+  type MetricLabels = Record<string, string>;
+
+  interface CounterMetric {
+    help: string;
+    values: Map<string, number>;
+  }
+
+  interface HistogramMetric {
+    help: string;
+    buckets: number[];
+    series: Map<string, { counts: number[]; sum: number; count: number }>;
+  }
+
+  const counters = new Map<string, CounterMetric>([
+    [
+      "sterad_memory_cache_lookups_total",
+      { help: "Memory cache lookups by result", values: new Map() },
+    ],
+    [
+      "sterad_disk_cache_lookups_total",
+      { help: "Disk cache lookups by result", values: new Map() },
+    ],
+    [
+      "sterad_shell_fallbacks_total",
+      { help: "Page requests answered with the SPA shell", values: new Map() },
+    ],
+    [
+      "sterad_captures_total",
+      { help: "Capture submissions by result and reason", values: new Map() },
+    ],
+    [
+      "sterad_disk_cache_evictions_total",
+      {
+        help: "Disk cache entries evicted to stay within budget",
+        values: new Map(),
+      },
+    ],
+    [
+      "sterad_intercept_script_runs_total",
+      { help: "Intercept script executions by result", values: new Map() },
+    ],
+    [
+      "sterad_config_reloads_total",
+      { help: "Config and shell reloads by result", values: new Map() },
+    ],
+  ]);
+
+  const histograms = new Map<string, HistogramMetric>([
+    [
+      "sterad_request_duration_seconds",
+      {
+        help: "Request latency in seconds",
+        buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+        series: new Map(),
+      },
+    ],
+  ]);
+
+  function formatLabels(labels: MetricLabels): string {
+    const pairs = Object.entries(labels).map(
+      ([key, value]) => `${key}="${value.replace(/["\\]/g, "\\$&")}"`
+    );
+    return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+  }
+
+  function incrementCounter(name: string, labels: MetricLabels = {}) {
+    const counter = counters.get(name)!;
+    const key = formatLabels(labels);
+    counter.values.set(key, (counter.values.get(key) || 0) + 1);
+  }
+
+  function observeHistogram(name: string, value: number, labels: MetricLabels) {
+    const histogram = histograms.get(name)!;
+    const key = formatLabels(labels);
+    let series = histogram.series.get(key);
+    if (!series) {
+      series = { counts: histogram.buckets.map(() => 0), sum: 0, count: 0 };
+      histogram.series.set(key, series);
+    }
+    histogram.buckets.forEach((bucket, i) => {
+      if (value <= bucket) series!.counts[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  // Render all metrics in the Prometheus text exposition format
+  function renderMetrics(): string {
+    const lines: string[] = [];
+
+    for (const [name, counter] of counters) {
+      lines.push(`# HELP ${name} ${counter.help}`, `# TYPE ${name} counter`);
+      for (const [labels, value] of counter.values) {
+        lines.push(`${name}${labels} ${value}`);
+      }
+    }
+
+    for (const [name, histogram] of histograms) {
+      lines.push(
+        `# HELP ${name} ${histogram.help}`,
+        `# TYPE ${name} histogram`
+      );
+      for (const [labels, series] of histogram.series) {
+        // Bucket labels are appended to the series labels
+        const prefix = labels ? `${labels.slice(0, -1)},` : "{";
+        histogram.buckets.forEach((bucket, i) => {
+          lines.push(
+            `${name}_bucket${prefix}le="${bucket}"} ${series.counts[i]}`
+          );
+        });
+        lines.push(`${name}_bucket${prefix}le="+Inf"} ${series.count}`);
+        lines.push(`${name}_sum${labels} ${series.sum}`);
+        lines.push(`${name}_count${labels} ${series.count}`);
+      }
+    }
+
+    return lines.join("\n") + "\n";
+  }
+
+  // Wrap a request handler to record its latency
+  function withRequestMetrics(
+    handler: (request: Request, server?: RequestIPProvider) => Promise<Response>
+  ): (request: Request, server?: RequestIPProvider) => Promise<Response> {
+    return async (request, server) => {
+      const start = performance.now();
+      const response = await handler(request, server);
+      observeHistogram(
+        "sterad_request_duration_seconds",
+        (performance.now() - start) / 1000,
+        { method: request.method, status: String(response.status) }
+      );
+      return response;
+    };
+  }
+
+  // Ensure the cache directory exists.
+  if (!existsSync(cache_dir)) {
+    mkdirSync(cache_dir, { recursive: true });
+    console.log(`Sterad: Created cache directory at ${cache_dir}`);
+  }
+
+  // Resolve absolute paths for security validation
+  const spaDistAbsolute = resolve(spa_dist);
+  const {
+    cacheDirAbsolute,
+    getDiskCacheFilePath,
+    getMetadataFilePath,
+    getCompressedFilePath,
+    getCacheEntryBytes,
+    readCacheMetadata,
+    listCacheEntries,
+    deleteCacheEntryFiles,
+    purgeCacheFiles,
+  } = createDiskCacheStore(cache_dir, runtime);
+
+  // HTTP status a page declared through window.Sterad or prerender meta tags
+  interface CaptureStatus {
+    status: number;
+    location?: string;
+  }
+
+  const CAPTURE_STATUS_CODES = new Set([
+    200, 301, 302, 303, 307, 308, 404, 410,
+  ]);
+  const REDIRECT_STATUS_CODES = new Set([301, 302, 303, 307, 308]);
+
+  // Validate the declared status; redirects may only point at same-origin paths
+  function validateCaptureStatus(
+    status: unknown,
+    location: unknown
+  ): CaptureStatus | null {
+    if (status === undefined || status === null) {
+      return { status: 200 };
+    }
+    if (typeof status !== "number" || !CAPTURE_STATUS_CODES.has(status)) {
+      return null;
+    }
+    if (!REDIRECT_STATUS_CODES.has(status)) {
+      return { status };
+    }
+    if (
+      typeof location !== "string" ||
+      location.length > 2048 ||
+      !/^\/(?![\/\\])/.test(location) ||
+      /[\s\x00-\x1f]/.test(location)
+    ) {
+      return null;
+    }
+    return { status, location };
+  }
+
+  // Bots get the declared status (and Location for redirects); everyone else
+  // gets the snapshot with a 200
+  function getSnapshotStatus(
+    meta: CacheEntryMetadata | undefined,
+    isBot: boolean
+  ): { status: number; headers: Record<string, string> } {
+    if (!isBot || !meta?.status) {
+      return { status: 200, headers: {} };
+    }
+    return {
+      status: meta.status,
+      headers: meta.location ? { Location: meta.location } : {},
+    };
+  }
+
+  // Memory cache entries hold the response bytes with the ETag precomputed, so
+  // a hit never touches the disk. Snapshots carry their metadata alongside.
+  interface MemoryCacheEntry {
+    body: Uint8Array<ArrayBuffer>;
+    type: string;
+    etag: string;
+    // Precompressed variants of the body, keyed by content coding
+    encodings: Partial<Record<ContentCoding, Uint8Array<ArrayBuffer>>>;
+    lastModified: number; // ms, sent as Last-Modified
+    size: number; // Bytes held, counting every variant
+    meta?: CacheEntryMetadata;
+  }
+
+  // Snapshots and static assets have separate budgets, so large media files
+  // cannot push HTML snapshots out of memory. Both are replaced on reload
+  function createMemoryCaches(config: Config) {
+    return {
+      snapshots: new ByteLru<string, MemoryCacheEntry>({
+        maxBytes: config.memory_cache_max_bytes!,
+        maxEntries: config.memory_cache_limit,
+      }),
+      staticAssets: new ByteLru<string, MemoryCacheEntry>({
+        maxBytes: config.static_cache_max_bytes!,
+        maxEntryBytes: config.static_cache_max_file_bytes!,
+      }),
+    };
+  }
+  let { snapshots: memoryCache, staticAssets: staticAssetCache } =
+    createMemoryCaches(config);
+
+  function createMemoryCacheEntry(
+    body: Uint8Array<ArrayBuffer>,
+    type: string,
+    etag: string,
+    lastModified: number,
+    encodings: MemoryCacheEntry["encodings"] = {},
+    meta?: CacheEntryMetadata
+  ): MemoryCacheEntry {
+    const size = Object.values(encodings).reduce(
+      (total, variant) => total + variant.byteLength,
+      body.byteLength
+    );
+    return { body, type, etag, encodings, lastModified, size, meta };
+  }
+
+  // Snapshot ETags are the hash of the composed page, which the sidecar also
+  // records for the compressed variants built from it
+  function addToMemoryCache(
+    cacheKey: string,
+    html: string,
+    meta: CacheEntryMetadata,
+    encodings: MemoryCacheEntry["encodings"]
+  ): MemoryCacheEntry {
+    const entry = createMemoryCacheEntry(
+      new TextEncoder().encode(html),
+      "text/html",
+      `"${sha256(html)}"`,
+      getSnapshotLastModified(meta),
+      encodings,
+      meta
+    );
+    memoryCache.set(cacheKey, entry);
+    return entry;
+  }
+
+  // A composed snapshot changes when it is recaptured or when the shell changes
+  function getSnapshotLastModified(meta: CacheEntryMetadata): number {
+    return Math.max(meta.capturedAt, spaShellModifiedAt);
+  }
+
+  // A file in spa_dist with what's needed to serve it
+  interface StaticFile {
+    path: string;
+    size: number;
+    lastModified: number; // ms
+    type: string;
+  }
+
+  async function openStaticFile(filePath: string): Promise<StaticFile | null> {
+    const stats = await runtime.stat(filePath);
+    return (
+      stats && { path: filePath, ...stats, type: getContentType(filePath) }
+    );
+  }
+
+  // Static assets are validated by size and modification time, which is enough
+  // to notice a redeploy without hashing every file
+  function getStaticAssetEtag(file: StaticFile): string {
+    return `"${file.size.toString(16)}-${file.lastModified.toString(16)}"`;
+  }
+
+  // Pre-built .br/.gz files next to an asset in spa_dist
+  async function findPrecompressedAssets(
+    secureFilePath: string
+  ): Promise<Partial<Record<ContentCoding, StaticFile>>> {
+    const variants: Partial<Record<ContentCoding, StaticFile>> = {};
+    for (const coding of CONTENT_CODINGS) {
+      const variant = await openStaticFile(
+        secureFilePath + CONTENT_CODING_EXTENSIONS[coding]
+      );
+      if (variant) {
+        variants[coding] = variant;
+      }
+    }
+    return variants;
+  }
+
+  async function addToStaticAssetCache(
+    path: string,
+    file: StaticFile,
+    variants: Partial<Record<ContentCoding, StaticFile>>
+  ): Promise<MemoryCacheEntry | null> {
+    if (file.size > static_cache_max_file_bytes!) {
+      return null;
+    }
+    const encodings: MemoryCacheEntry["encodings"] = {};
+    for (const [coding, variant] of Object.entries(variants)) {
+      encodings[coding as ContentCoding] = await runtime.readBytes(
+        variant.path
+      );
+    }
+    const entry = createMemoryCacheEntry(
+      await runtime.readBytes(file.path),
+      file.type,
+      getStaticAssetEtag(file),
+      file.lastModified,
+      encodings
+    );
+    return staticAssetCache.set(path, entry) ? entry : null;
+  }
+
+  // --- Compression ---
+  // Snapshots are compressed once when they are written and static assets use
+  // pre-built files from spa_dist; nothing is compressed per request
+
+  const brotliCompressAsync = promisify(brotliCompress);
+  const gzipAsync = promisify(gzip);
+  const gunzipAsync = promisify(gunzip);
+
+  async function compressHtml(
+    html: string
+  ): Promise<Record<ContentCoding, Uint8Array<ArrayBuffer>>> {
+    const [br, gz] = await Promise.all([
+      brotliCompressAsync(html, {
+        params: {
+          [zlibConstants.BROTLI_PARAM_MODE]: zlibConstants.BROTLI_MODE_TEXT,
+          [zlibConstants.BROTLI_PARAM_QUALITY]:
+            zlibConstants.BROTLI_MAX_QUALITY,
+        },
+      }),
+      gzipAsync(html, { level: zlibConstants.Z_BEST_COMPRESSION }),
+    ]);
+    return { br: new Uint8Array(br), gzip: new Uint8Array(gz) };
+  }
+
+  // Body and headers for the representation of a memory entry that suits the
+  // request's Accept-Encoding
+  function selectRepresentation(
+    entry: MemoryCacheEntry,
+    request: Request
+  ): { body: Uint8Array<ArrayBuffer>; headers: Record<string, string> } {
+    const available = CONTENT_CODINGS.filter(
+      (coding) => entry.encodings[coding]
+    );
+    const vary: Record<string, string> =
+      available.length > 0 ? { Vary: "Accept-Encoding" } : {};
+    const coding = negotiateEncoding(
+      request.headers.get("Accept-Encoding"),
+      available
+    );
+    const lastModified = new Date(entry.lastModified).toUTCString();
+    if (!coding) {
+      return {
+        body: entry.body,
+        headers: { ETag: entry.etag, "Last-Modified": lastModified, ...vary },
+      };
+    }
+    return {
+      body: entry.encodings[coding]!,
+      headers: {
+        "Content-Encoding": coding,
+        ETag: getEncodedEtag(entry.etag, coding),
+        "Last-Modified": lastModified,
+        ...vary,
+      },
+    };
+  }
+
+  // --- Conditional requests ---
+
+  // If-None-Match takes precedence; If-Modified-Since only counts without it
+  function isNotModified(
+    request: Request,
+    etag: string,
+    lastModified: string
+  ): boolean {
+    const ifNoneMatch = request.headers.get("If-None-Match");
+    if (ifNoneMatch !== null) {
+      return matchesEtag(ifNoneMatch, etag);
+    }
+    const ifModifiedSince = Date.parse(
+      request.headers.get("If-Modified-Since") ?? ""
+    );
+    return (
+      !Number.isNaN(ifModifiedSince) &&
+      Date.parse(lastModified) <= ifModifiedSince
+    );
+  }
+
+  // Answer with a bodiless 304 when the client's copy is still current. The
+  // headers must carry ETag and Last-Modified; only 200 responses revalidate
+  function createConditionalResponse(
+    request: Request,
+    body: BodyInit,
+    status: number,
+    headers: Record<string, string>
+  ): Response {
+    if (
+      status === 200 &&
+      isNotModified(request, headers["ETag"]!, headers["Last-Modified"]!)
+    ) {
+      const {
+        "Content-Type": _type,
+        "Content-Encoding": _encoding,
+        ...notModifiedHeaders
+      } = headers;
+      return new Response(null, { status: 304, headers: notModifiedHeaders });
+    }
+    return new Response(body, { status, headers });
+  }
+
+  // Memory and disk hits answer alike: the negotiated representation with the
+  // snapshot's cache, security and status headers
+  function createSnapshotResponse(
+    request: Request,
+    entry: MemoryCacheEntry,
+    path: string,
+    isBot: boolean
+  ): Response {
+    const snapshot = getSnapshotStatus(entry.meta, isBot);
+    const { body, headers } = selectRepresentation(entry, request);
+    return createConditionalResponse(request, body, snapshot.status, {
+      "Content-Type": entry.type,
+      ...headers,
+      ...getCacheHeaders(false, isBot, getSnapshotSecurityHeaders(path)),
+      ...snapshot.headers,
+    });
+  }
+
+  function sha256(content: string): string {
+    return createHash("sha256").update(content).digest("hex");
+  }
+
+  function getSecureStaticFilePath(requestedPath: string): string | null {
+    const cleanPath = sanitizePath(requestedPath);
+
+    if (!isPathSafe(cleanPath, spaDistAbsolute)) {
+      console.warn(
+        `Sterad Security: Blocked path traversal attempt: ${requestedPath}`
+      );
+      return null;
+    }
+
+    // Remove leading slash for join operation
+    const relativePath = cleanPath.startsWith("/")
+      ? cleanPath.slice(1)
+      : cleanPath;
+    return join(spaDistAbsolute, relativePath);
+  }
+
+  async function deleteCacheEntry(diskCacheFilePath: string): Promise<void> {
+    forgetDiskCacheEntry(diskCacheFilePath);
+    await deleteCacheEntryFiles(diskCacheFilePath);
+  }
+
+  // --- Disk cache accounting ---
+  // Every entry on disk is tracked with its size and last access time. The map
+  // is kept in access order (least recently used first), so eviction walks it
+  // from the start until the cache is back within budget
+
+  interface DiskCacheRecord {
+    cacheKey: string;
+    bytes: number; // HTML file, metadata sidecar and compressed variants
+    lastAccessed: number; // ms
+    modifiedAt: number; // ms, preserved when access times are persisted
+  }
+
+  const diskCacheIndex = new Map<string, DiskCacheRecord>();
+  let diskCacheBytes = 0;
+  // Entries touched since the last sweep, whose access time still has to be
+  // written back to the file so the order survives restarts
+  const touchedDiskCacheEntries = new Set<string>();
+  // Recently evicted keys, so cache info can tell eviction apart from a miss
+  const recentDiskEvictions = new QuickLRU<string, number>({ maxSize: 1000 });
+  const diskEvictionStats = { total: 0, lastEvictedAt: null as number | null };
+
+  function recordDiskCacheEntry(
+    diskCacheFilePath: string,
+    cacheKey: string,
+    bytes: number,
+    lastAccessed: number = Date.now(),
+    modifiedAt: number = Date.now()
+  ): void {
+    forgetDiskCacheEntry(diskCacheFilePath);
+    diskCacheIndex.set(diskCacheFilePath, {
+      cacheKey,
+      bytes,
+      lastAccessed,
+      modifiedAt,
+    });
+    diskCacheBytes += bytes;
+    recentDiskEvictions.delete(cacheKey);
+  }
+
+  function forgetDiskCacheEntry(diskCacheFilePath: string): void {
+    const record = diskCacheIndex.get(diskCacheFilePath);
+    if (record) {
+      diskCacheIndex.delete(diskCacheFilePath);
+      diskCacheBytes -= record.bytes;
+    }
+    touchedDiskCacheEntries.delete(diskCacheFilePath);
+  }
+
+  // Move an entry to the most recently used end
+  function touchDiskCacheEntry(diskCacheFilePath: string): void {
+    const record = diskCacheIndex.get(diskCacheFilePath);
+    if (!record) return;
+    diskCacheIndex.delete(diskCacheFilePath);
+    record.lastAccessed = Date.now();
+    diskCacheIndex.set(diskCacheFilePath, record);
+    touchedDiskCacheEntries.add(diskCacheFilePath);
+  }
+
+  function isDiskCacheOverBudget(): boolean {
+    return (
+      (max_disk_cache_bytes! > 0 && diskCacheBytes > max_disk_cache_bytes!) ||
+      (max_disk_cache_entries! > 0 &&
+        diskCacheIndex.size > max_disk_cache_entries!)
+    );
+  }
+
+  // Evict least recently used entries until the disk cache fits its budget
+  async function enforceDiskCacheLimits(): Promise<number> {
+    // Pick the victims synchronously so overlapping calls never share one
+    const victims: [string, DiskCacheRecord][] = [];
+    for (const entry of diskCacheIndex) {
+      if (!isDiskCacheOverBudget()) break;
+      victims.push(entry);
+      forgetDiskCacheEntry(entry[0]);
+    }
+
+    for (const [diskCacheFilePath, record] of victims) {
+      try {
+        await deleteCacheEntry(diskCacheFilePath);
+      } catch (error) {
+        console.warn(
+          `Sterad: Failed to evict cache entry ${record.cacheKey}: ${error}`
+        );
+      }
+      memoryCache.delete(record.cacheKey);
+      recentDiskEvictions.set(record.cacheKey, Date.now());
+      diskEvictionStats.total++;
+      diskEvictionStats.lastEvictedAt = Date.now();
+      incrementCounter("sterad_disk_cache_evictions_total");
+    }
+
+    if (victims.length > 0) {
+      console.log(
+        `Sterad: Evicted ${victims.length} disk cache entries (${diskCacheIndex.size} entries, ${diskCacheBytes} bytes left).`
+      );
+    }
+    return victims.length;
+  }
+
+  // Account for the entries already on disk, oldest access first
+  async function loadDiskCacheIndex(): Promise<void> {
+    const records: [string, DiskCacheRecord][] = [];
+    for (const { meta, diskCacheFilePath } of await listCacheEntries()) {
+      try {
+        const html = await stat(diskCacheFilePath);
+        records.push([
+          diskCacheFilePath,
+          {
+            cacheKey: meta.path,
+            bytes: await getCacheEntryBytes(diskCacheFilePath),
+            lastAccessed: html.atimeMs,
+            modifiedAt: html.mtimeMs,
+          },
+        ]);
+      } catch {
+        // Removed while scanning
+      }
+    }
+
+    records.sort((a, b) => a[1].lastAccessed - b[1].lastAccessed);
+    for (const [diskCacheFilePath, record] of records) {
+      recordDiskCacheEntry(
+        diskCacheFilePath,
+        record.cacheKey,
+        record.bytes,
+        record.lastAccessed,
+        record.modifiedAt
+      );
+    }
+    console.log(
+      `Sterad: Disk cache holds ${diskCacheIndex.size} entries (${diskCacheBytes} bytes).`
+    );
+  }
+
+  // Disk usage and eviction counters reported by the admin API
+  function getDiskCacheUsage() {
+    return {
+      entries: diskCacheIndex.size,
+      bytes: diskCacheBytes,
+      maxEntries: max_disk_cache_entries || null,
+      maxBytes: max_disk_cache_bytes || null,
+      evictions: diskEvictionStats.total,
+      lastEvictedAt: diskEvictionStats.lastEvictedAt
+        ? new Date(diskEvictionStats.lastEvictedAt).toISOString()
+        : null,
+    };
+  }
+
+  // Background sweep: persist access times and evict anything over budget
+  async function sweepDiskCache(): Promise<void> {
+    for (const diskCacheFilePath of [...touchedDiskCacheEntries]) {
+      touchedDiskCacheEntries.delete(diskCacheFilePath);
+      const record = diskCacheIndex.get(diskCacheFilePath);
+      if (!record) continue;
+      try {
+        await utimes(
+          diskCacheFilePath,
+          new Date(record.lastAccessed),
+          new Date(record.modifiedAt)
+        );
+      } catch {
+        // The entry was deleted in the meantime
+      }
+    }
+    await enforceDiskCacheLimits();
+  }
+
+  // Baseline versions wrote whole documents under flattened file names
+  // ("/a/b" -> "a_b.html") and no metadata. The root element's content and
+  // the title are all a fragment entry needs; the key comes back from the
+  // name unless an "_" makes it ambiguous ("/a/b" or "/a_b"). Returns whether
+  // the document became an entry
+  async function recoverLegacyDocument(
+    fileName: string,
+    legacyFilePath: string
+  ): Promise<boolean> {
+    const name = fileName.slice(0, -".html".length);
+    if (name.includes("_")) {
+      return false;
+    }
+    const cacheKey = cacheKeys.getCacheKeyFromPath(
+      name === "index" ? "/" : `/${name}`
+    );
+    const legacyStats = await runtime.stat(legacyFilePath);
+    if (!cacheKey || !legacyStats) {
+      return false;
+    }
+    const html = await runtime.readText(legacyFilePath);
+    const fragment = extractRootFragment(html);
+    if (!fragment || !isSafeMainContent(fragment).isValid) {
+      return false;
+    }
+    const sanitizedMainContent = sanitizeHtml(fragment);
+    const title = decodeEntities(
+      /<title>([\s\S]*?)<\/title>/i.exec(html)?.[1] ?? ""
+    )
+      .trim()
+      .slice(0, max_title_length!);
+
+    const diskCacheFilePath = getDiskCacheFilePath(cacheKey);
+    const existing = await readCacheMetadata(diskCacheFilePath);
+    if (
+      !isCacheEntryValid(existing) ||
+      existing.capturedAt < legacyStats.lastModified
+    ) {
+      const meta: CacheEntryMetadata = {
+        path: cacheKey,
+        format: "fragment",
+        capturedAt: legacyStats.lastModified,
+        contentHash: sha256(sanitizedMainContent),
+        title,
+        size: Buffer.byteLength(sanitizedMainContent, "utf8"),
+        source: { userAgent: "human", manual: false },
+        shellFingerprint: spaShellFingerprint,
+      };
+      // The compressed variants are composed on the first read
+      await deleteCacheEntryFiles(diskCacheFilePath);
+      mkdirSync(dirname(diskCacheFilePath), { recursive: true });
+      await runtime.writeFile(diskCacheFilePath, sanitizedMainContent);
+      await runtime.writeFile(
+        getMetadataFilePath(diskCacheFilePath),
+        JSON.stringify(meta, null, 2)
+      );
+    }
+    await deleteCacheEntryFiles(legacyFilePath);
+    return true;
+  }
+
+  // One-time move of entries written with the old flattened file names into
+  // the hashed layout. The new layout only has shard directories at the top
+  // level, so any top-level file is a leftover. Whole documents are recovered
+  // where possible and removed otherwise, so this runs once per file.
+  async function migrateLegacyCacheLayout(): Promise<void> {
+    let migrated = 0;
+    let superseded = 0;
+    let recovered = 0;
+    const unrecoverable: string[] = [];
+
+    for (const entry of await readdir(cacheDirAbsolute, {
+      withFileTypes: true,
+    })) {
+      if (!entry.isFile() || !entry.name.endsWith(".html")) continue;
+      const legacyFilePath = join(cacheDirAbsolute, entry.name);
+
+      try {
+        const meta = await readCacheMetadata(legacyFilePath);
+        const cacheKey = isCacheEntryValid(meta)
+          ? cacheKeys.getCacheKeyFromPath(meta.path)
+          : null;
+        if (!meta || !cacheKey) {
+          if (await recoverLegacyDocument(entry.name, legacyFilePath)) {
+            recovered++;
+          } else {
+            await deleteCacheEntryFiles(legacyFilePath);
+            unrecoverable.push(entry.name);
+          }
+          continue;
+        }
+        const diskCacheFilePath = getDiskCacheFilePath(cacheKey);
+
+        // Keys that now normalize to the same entry keep the newest capture
+        const existing = await readCacheMetadata(diskCacheFilePath);
+        if (
+          isCacheEntryValid(existing) &&
+          existing.capturedAt >= meta.capturedAt
+        ) {
+          await deleteCacheEntry(legacyFilePath);
+          superseded++;
+          continue;
+        }
+
+        mkdirSync(dirname(diskCacheFilePath), { recursive: true });
+        await rename(legacyFilePath, diskCacheFilePath);
+        await runtime.writeFile(
+          getMetadataFilePath(diskCacheFilePath),
+          JSON.stringify({ ...meta, path: cacheKey }, null, 2)
+        );
+        await rm(getMetadataFilePath(legacyFilePath), { force: true });
+        migrated++;
+      } catch (error) {
+        console.warn(
+          `Sterad: Failed to migrate cache file ${entry.name}: ${error}`
+        );
+      }
+    }
+
+    // Sidecars whose HTML file is already gone
+    for (const entry of await readdir(cacheDirAbsolute, {
+      withFileTypes: true,
+    })) {
+      if (!entry.isFile() || !entry.name.endsWith(".meta.json")) continue;
+      const legacyFilePath = join(
+        cacheDirAbsolute,
+        entry.name.replace(/\.meta\.json$/, ".html")
+      );
+      if (!existsSync(legacyFilePath)) {
+        await rm(join(cacheDirAbsolute, entry.name), { force: true });
+      }
+    }
+
+    if (migrated || superseded || recovered) {
+      console.log(
+        `Sterad: Migrated ${migrated} cache entries to the hashed layout, recovered ${recovered} whole documents from an older Sterad version and removed ${superseded} older captures of the same cache keys.`
+      );
+    }
+    if (unrecoverable.length > 0) {
+      console.warn(
+        `Sterad: Removed ${unrecoverable.length} cache files from an older Sterad version in ${cacheDirAbsolute} (${unrecoverable.slice(0, 5).join(", ")}${unrecoverable.length > 5 ? ", ..." : ""}). Their paths can't be told from the file name or their content couldn't be recovered; the pages will be captured again.`
+      );
+    }
+  }
+
+  // Compile cache patterns at startup and whenever the config is reloaded
+  let CACHE_REGEX = compileCachePatterns(cache_routes);
+  let NO_CACHE_REGEX = compileCachePatterns(not_cache_routes!);
+
+  // Fast path for cache checking
+  const shouldCachePath = (path: string): boolean => {
+    // Always handle root path
+    if (path === "/") return cache_routes.includes("/");
+
+    const matchesCache = CACHE_REGEX.test(path);
+    const matchesNoCache = NO_CACHE_REGEX.test(path);
+
+    return matchesCache && !matchesNoCache;
+  };
+
+  // The pattern that decided whether a path is cached, for diagnostics
+  function describeRouteMatch(path: string): string {
+    const excluded = not_cache_routes?.find((pattern) =>
+      compileCachePatterns([pattern]).test(path)
+    );
+    if (excluded) {
+      return `not_cache_routes "${encodeURI(excluded)}"`;
+    }
+    const included = cache_routes.find((pattern) =>
+      compileCachePatterns([pattern]).test(path)
+    );
+    return included ? `cache_routes "${encodeURI(included)}"` : "none";
+  }
+
+  // Per-route TTL overrides, checked in declaration order (first match wins)
+  function compileTtlRules(routes: Record<string, number>) {
+    return Object.entries(routes).map(([pattern, ttl]) => ({
+      regex: compileCachePatterns([pattern]),
+      ttl,
+    }));
+  }
+  let CACHE_TTL_RULES = compileTtlRules(cache_ttl_routes!);
+
+  function getCacheTtl(path: string): number {
+    for (const rule of CACHE_TTL_RULES) {
+      if (rule.regex.test(path)) return rule.ttl;
+    }
+    return cache_ttl!;
+  }
+
+  // Returns the expiry timestamp (ms) of a snapshot, or null if it never expires
+  function getCacheExpiry(path: string, cachedAt: number): number | null {
+    const ttl = getCacheTtl(path);
+    return ttl > 0 ? cachedAt + ttl * 1000 : null;
+  }
+
+  function isSnapshotStale(path: string, cachedAt: number): boolean {
+    const expiresAt = getCacheExpiry(path, cachedAt);
+    return expiresAt !== null && Date.now() >= expiresAt;
+  }
+
+  // Rebuilt on reload, as the query param settings may change
+  let cacheKeys = createCacheKeys(config);
+
+  // Pathname part of a cache key, used for route pattern matching
+  function getCacheKeyPathname(cacheKey: string): string {
+    return cacheKey.split("?")[0]!;
+  }
+
+  // Policy for the HTML parser used by validation and sanitization
+  function createSanitizerPolicy(config: Config): SanitizerPolicy {
+    return {
+      allowedTags: config.allowed_tags!,
+      allowedAttributes: config.allowed_attributes!,
+      allowedUrlSchemes: config.allowed_url_schemes!,
+      allowStyleAttributes: config.allow_style_attributes!,
+      allowedCssProperties: config.allowed_css_properties!,
+    };
+  }
+  let sanitizerPolicy = createSanitizerPolicy(config);
+
+  // Comprehensive trust boundary validation
+  type ValidationCategory =
+    | "content_length"
+    | "disallowed_tag"
+    | "disallowed_attribute"
+    | "html_structure"
+    | "tag_ratio"
+    | "security_pattern";
+
+  interface ValidationResult {
+    isValid: boolean;
+    reason?: string;
+    category?: ValidationCategory; // Set on failure, used for metrics labels
+    metrics?: {
+      contentLength: number;
+      tagCount: number;
+      textLength: number;
+      tagRatio: number;
+    };
+  }
+
+  function validateContentLength(content: string): ValidationResult {
+    const contentLength = Buffer.byteLength(content, "utf8");
+    if (contentLength > max_content_length!) {
+      return {
+        isValid: false,
+        category: "content_length",
+        reason: `Content too large: ${contentLength} bytes (max: ${max_content_length})`,
+        metrics: { contentLength, tagCount: 0, textLength: 0, tagRatio: 0 },
+      };
+    }
+    return {
+      isValid: true,
+      metrics: { contentLength, tagCount: 0, textLength: 0, tagRatio: 0 },
+    };
+  }
+
+  // Shared metrics for validations computed from a parsed fragment
+  function fragmentMetrics(content: string, fragment: ParsedFragment) {
+    const { tagLength, textLength, tagCount } = fragment;
+    return {
+      contentLength: content.length,
+      tagCount,
+      textLength,
+      tagRatio: textLength === 0 ? 1 : tagLength / (tagLength + textLength),
+    };
+  }
+
+  function validateHtmlStructure(
+    content: string,
+    fragment: ParsedFragment
+  ): ValidationResult {
+    // Disallowed tags and attributes and malformed nesting, as found by the parser
+    const violation = fragment.violations.find(
+      ({ category }) => category !== "security_pattern"
+    );
+    if (violation) {
+      return {
+        isValid: false,
+        category: violation.category,
+        reason: violation.reason,
+        metrics: fragmentMetrics(content, fragment),
+      };
+    }
+
+    return { isValid: true, metrics: fragmentMetrics(content, fragment) };
+  }
+
+  function validateTagRatio(
+    content: string,
+    fragment: ParsedFragment
+  ): ValidationResult {
+    // Calculate tag to content ratio
+    const metrics = fragmentMetrics(content, fragment);
+
+    if (metrics.textLength === 0) {
+      return {
+        isValid: false,
+        category: "tag_ratio",
+        reason: "Content contains no text, only HTML tags",
+        metrics,
+      };
+    }
+
+    if (metrics.tagRatio > max_tag_ratio!) {
+      return {
+        isValid: false,
+        category: "tag_ratio",
+        reason: `Tag ratio too high: ${(metrics.tagRatio * 100).toFixed(1)}% (max: ${(
+          max_tag_ratio! * 100
+        ).toFixed(1)}%)`,
+        metrics,
+      };
+    }
+
+    return { isValid: true, metrics };
+  }
+
+  function validateSecurityPatterns(
+    content: string,
+    fragment: ParsedFragment
+  ): ValidationResult {
+    // Event handlers, forbidden elements and URL schemes, as found by the parser
+    const violation = fragment.violations.find(
+      ({ category }) => category === "security_pattern"
+    );
+    if (violation) {
+      return {
+        isValid: false,
+        category: "security_pattern",
+        reason: violation.reason,
+        metrics: fragmentMetrics(content, fragment),
+      };
+    }
+
+    return { isValid: true };
+  }
+
+  // Returns the first failed validation, or a passing result
+  function isSafeMainContent(content: string): ValidationResult {
+    // Size is checked before parsing to bound the work done on hostile input
+    const lengthValidation = validateContentLength(content);
+    const fragment = lengthValidation.isValid
+      ? parseHtmlFragment(content, sanitizerPolicy)
+      : null;
+
+    // Comprehensive validation pipeline
+    const validations = fragment
+      ? [
+          validateHtmlStructure(content, fragment),
+          validateTagRatio(content, fragment),
+          validateSecurityPatterns(content, fragment),
+        ]
+      : [lengthValidation];
+
+    for (const validation of validations) {
+      if (!validation.isValid) {
+        console.warn(`Sterad Security: ${validation.reason}`);
+        if (validation.metrics) {
+          console.warn(`Sterad Security Metrics:`, validation.metrics);
+        }
+        return validation;
+      }
+    }
+
+    return { isValid: true };
+  }
+
+  // Re-serialize the content keeping only allowlisted tags, attributes and URLs
+  function sanitizeHtml(content: string): string {
+    return parseHtmlFragment(content, sanitizerPolicy).html.trim();
+  }
+
+  // Intercept script execution
+  interface InterceptContext {
+    path: string;
+    title: string;
+    content: string;
+    originalHtml: string;
+    timestamp: number;
+  }
+
+  async function executeInterceptScript(
+    finalHtml: string,
+    context: InterceptContext
+  ): Promise<string> {
+    if (!intercept_script) {
+      return finalHtml;
+    }
+
+    try {
+      // Validate intercept script path for security
+      const scriptPath = resolve(intercept_script);
+      if (!existsSync(scriptPath)) {
+        console.warn(`Sterad: Intercept script not found: ${intercept_script}`);
+        incrementCounter("sterad_intercept_script_runs_total", {
+          result: "failure",
+        });
+        return finalHtml;
+      }
+
+      // Security check: ensure script is not outside project directory
+      const projectRoot = resolve(".");
+      if (!scriptPath.startsWith(projectRoot)) {
+        console.warn(
+          `Sterad Security: Intercept script outside project directory: ${intercept_script}`
+        );
+        incrementCounter("sterad_intercept_script_runs_total", {
+          result: "failure",
+        });
+        return finalHtml;
+      }
+
+      console.log(`Sterad: Executing intercept script: ${intercept_script}`);
+
+      // Send context data to the script via stdin
+      const inputData = JSON.stringify({
+        html: finalHtml,
+        context: context,
+      });
+
+      // Execute the intercept script with the runtime Sterad is running on
+      const proc = runtime.runScript(scriptPath, inputData);
+
+      // Wait for the script to complete with timeout
+      const timeoutMs = 5000; // 5 second timeout
+      let timeout: ReturnType<typeof setTimeout> | undefined;
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        timeout = setTimeout(() => {
+          proc.kill();
+          reject(new Error("Intercept script timeout"));
+        }, timeoutMs);
+      });
+
+      let exitCode: number | null;
+      try {
+        exitCode = await Promise.race([proc.exited, timeoutPromise]);
+      } finally {
+        // A pending timer would keep the process alive for up to timeoutMs
+        clearTimeout(timeout);
+      }
+
+      if (exitCode !== 0) {
+        const stderr = await proc.stderr;
+        console.warn(
+          `Sterad: Intercept script failed with exit code ${exitCode}: ${stderr}`
+        );
+        incrementCounter("sterad_intercept_script_runs_total", {
+          result: "failure",
+        });
+        return finalHtml;
+      }
+
+      // Read the transformed HTML from stdout
+      const stdout = await proc.stdout;
+      const transformedHtml = stdout.trim();
+
+      if (!transformedHtml) {
+        console.warn("Sterad: Intercept script returned empty output");
+        incrementCounter("sterad_intercept_script_runs_total", {
+          result: "failure",
+        });
+        return finalHtml;
+      }
+
+      // Basic validation of transformed HTML
+      if (transformedHtml.length > finalHtml.length * 3) {
+        console.warn(
+          "Sterad: Intercept script output too large, using original HTML"
+        );
+        incrementCounter("sterad_intercept_script_runs_total", {
+          result: "failure",
+        });
+        return finalHtml;
+      }
+
+      console.log("Sterad: Intercept script executed successfully");
+      incrementCounter("sterad_intercept_script_runs_total", {
+        result: "success",
+      });
+      return transformedHtml;
+    } catch (error: any) {
+      console.warn(
+        `Sterad: Intercept script execution failed: ${error.message}`
+      );
+      incrementCounter("sterad_intercept_script_runs_total", {
+        result:
+          error.message === "Intercept script timeout" ? "timeout" : "failure",
+      });
+      return finalHtml;
+    }
+  }
+
+  const injectJsScriptContent = `{Sterad-SCRIPT}`;
+
+  // Everything derived from index.html, swapped as a unit on reload
+  interface SpaShell {
+    html: string; // Shell with the Sterad API script
+    htmlWithInjectScript: string; // Shell with the capture script as well
+    fingerprint: string;
+    modifiedAt: number;
+    apiScriptHash: string;
+  }
+
+  let spaShellHtml: string;
+  let spaHtmlWithInjectScript: string;
+  let spaShellFingerprint: string;
+  let spaShellModifiedAt: number;
+  let steradApiScriptHash: string;
+
+  async function loadSpaShell(): Promise<SpaShell> {
+    const spaShellPath = join(spa_dist, "index.html");
+    const shellHtml = await runtime.readText(spaShellPath);
+    const shellStats = (await runtime.stat(spaShellPath))!;
+
+    // Always inject the main script with Sterad API
+    const steradApiScript = `
+      // Sterad API - Available on all pages
+      window.Sterad = {
+        // Trigger manual caching of current page
+        triggerCache: function() {
+          this._manualCacheTriggered = true;
+        
+          // Find main content using the same logic as inject script
+          function findMainContent() {
+            const selectors = [
+              '[data-wrapper="app"]',
+              "#root",
+              "#app", 
+              "#__next",
+              '[role="main"]',
+              "body"
+            ];
+          
+            for (const selector of selectors) {
+              const element = document.querySelector(selector);
+              if (element) return element;
+            }
+            return document.documentElement;
+          }
+        
+          function getMainContent() {
+            try {
+              const mainContentElement = findMainContent();
+              const sanitizedContentClone = mainContentElement.cloneNode(true);
+            
+              // Remove scripts and sanitize
+              const scripts = sanitizedContentClone.querySelectorAll("script");
+              scripts.forEach(script => script.remove());
+            
+              const allElements = sanitizedContentClone.getElementsByTagName("*");
+              for (let i = allElements.length - 1; i >= 0; i--) {
+                const el = allElements[i];
+                const attrs = Array.from(el.attributes);
+              
+                for (let j = attrs.length - 1; j >= 0; j--) {
+                  const attr = attrs[j];
+                  const attrNameLower = attr.name.toLowerCase();
+                  const attrValueLower = typeof attr.value === "string" ? attr.value.toLowerCase() : "";
+                
+                  if (attrNameLower.startsWith("on")) {
+                    el.removeAttribute(attr.name);
+                    continue;
+                  }
+                
+                  if ((attrNameLower === "href" || attrNameLower === "src") && 
+                      attrValueLower.startsWith("javascript:")) {
+                    el.removeAttribute(attr.name);
+                  }
+                }
+              }
+            
+              return {
+                title: document.title,
+                content: sanitizedContentClone.innerHTML,
+                url: window.location.pathname + window.location.search
+              };
+            } catch (e) {
+              console.error("Sterad: Error preparing content for caching:", e);
+              return null;
+            }
+          }
+        
+          // Per-page head tags set by the SPA
+          function getHeadMetadata() {
+            const meta = [];
+            document.querySelectorAll('meta[name="description"], meta[name="robots"], meta[property^="og:"], meta[name^="twitter:"], meta[property^="twitter:"]').forEach(el => {
+              const content = el.getAttribute("content");
+              if (content === null) return;
+              const property = el.getAttribute("property");
+              meta.push(property ? { property, content } : { name: el.getAttribute("name"), content });
+            });
+          
+            const canonical = document.querySelector('link[rel="canonical"]');
+            const jsonLd = Array.from(document.querySelectorAll('script[type="application/ld+json"]')).map(script => script.textContent || "");
+          
+            return {
+              meta,
+              canonical: canonical ? canonical.getAttribute("href") : null,
+              jsonLd
+            };
+          }
+        
+          // Status set through setStatus()/redirect() or prerender meta tags
+          function getDeclaredStatus(sterad) {
+            let status = sterad._status;
+            let location = sterad._location;
+            const statusMeta = document.querySelector('meta[name="prerender-status-code"]');
+            if (!status && statusMeta) {
+              status = parseInt(statusMeta.getAttribute("content"), 10) || null;
+            }
+            const headerMeta = document.querySelector('meta[name="prerender-header"]');
+            const header = headerMeta ? headerMeta.getAttribute("content") || "" : "";
+            if (!location && header.toLowerCase().startsWith("location:")) {
+              location = header.slice("location:".length).trim();
+            }
+            return { status, location };
+          }
+        
+          const contentToCache = getMainContent();
+          if (!contentToCache || !contentToCache.content) {
+            return Promise.reject(new Error("No content to cache"));
+          }
+        
+          const tokenMeta = document.querySelector('meta[name="sterad-capture-token"]');
+          const declared = getDeclaredStatus(this);
+        
+          return fetch("/__sterad_capture", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              path: contentToCache.url,
+              title: contentToCache.title,
+              content: contentToCache.content,
+              manual: true,
+              head: getHeadMetadata(),
+              status: declared.status,
+              location: declared.location,
+              token: tokenMeta ? tokenMeta.getAttribute("content") : null
+            }),
+            credentials: "same-origin"
+          }).then(response => {
+            if (response.ok) {
+              console.log("Sterad: Page manually cached successfully");
+              return response.json().catch(() => ({}));
+            } else {
+              throw new Error("Failed to cache page: " + response.status);
+            }
+          });
+        },
+      
+        // Get cache information for current page
+        getCacheInfo: function() {
+          return fetch("/__sterad_cache_info?path=" + encodeURIComponent(window.location.pathname + window.location.search), {
+            method: "GET",
+            credentials: "same-origin"
+          }).then(response => {
+            if (response.ok) {
+              return response.json();
+            } else {
+              return { cached: false, lastCached: null };
+            }
+          });
+        },
+      
+        // Check if current page is cached
+        isCached: function() {
+          return this.getCacheInfo().then(info => info.cached);
+        },
+      
+        // Get last cached timestamp
+        getLastCached: function() {
+          return this.getCacheInfo().then(info => info.lastCached ? new Date(info.lastCached) : null);
+        },
+      
+        // Declare the HTTP status bots should get for this page, e.g. 404
+        setStatus: function(code) {
+          this._status = code;
+        },
+      
+        // Declare that this page redirects; the SPA still handles navigation
+        redirect: function(path, code) {
+          this._status = code || 301;
+          this._location = path;
+        },
+      
+        _manualCacheTriggered: false,
+        _status: null,
+        _location: null
+      };
+    
+      // Detect hard reload (not SPA navigation)
+      window.addEventListener("beforeunload", function (e) {
+        if (performance && performance.getEntriesByType("navigation")[0]?.type === "reload") {
+          // Send DELETE to server to clear cache for this path
+          fetch("/__sterad_capture", {
+            method: "DELETE",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ path: window.location.pathname + window.location.search }),
+            credentials: "same-origin",
+          });
+        }
+      });
+    `;
+
+    return {
+      html: shellHtml.replace(
+        "</body>",
+        `${CAPTURE_TOKEN_PLACEHOLDER}\n<script${SCRIPT_NONCE_PLACEHOLDER}>${steradApiScript}</script>\n</body>`
+      ),
+      htmlWithInjectScript: shellHtml.replace(
+        "</body>",
+        `${CAPTURE_TOKEN_PLACEHOLDER}\n<script${SCRIPT_NONCE_PLACEHOLDER}>${injectJsScriptContent}</script>\n<script${SCRIPT_NONCE_PLACEHOLDER}>${steradApiScript}</script>\n</body>`
+      ),
+      // Fingerprint the build so snapshots from a previous deploy can be detected
+      fingerprint: sha256(shellHtml),
+      modifiedAt: shellStats.lastModified,
+      // Snapshots are shared and precompressed, so they can't carry a nonce; the
+      // API script's hash allows it instead
+      apiScriptHash: `'sha256-${createHash("sha256")
+        .update(steradApiScript)
+        .digest("base64")}'`,
+    };
+  }
+  // Located once per loaded shell and reused for every composition
+  let spaRootElementRegex: RegExp;
+
+  function applySpaShell(shell: SpaShell): void {
+    spaShellHtml = shell.html;
+    spaHtmlWithInjectScript = shell.htmlWithInjectScript;
+    spaShellFingerprint = shell.fingerprint;
+    spaShellModifiedAt = shell.modifiedAt;
+    steradApiScriptHash = shell.apiScriptHash;
+    spaRootElementRegex = findSpaRootElementRegex(shell.html);
+  }
+
+  try {
+    applySpaShell(await loadSpaShell());
+  } catch (error: any) {
+    throw new Error(
+      `Failed to load SPA shell (index.html) from ${spa_dist}. Error: ${error.message}`
+    );
+  }
+
+  // Rebuild a full page from a stored fragment using the currently loaded shell,
+  // so snapshots survive redeploys that change hashed asset names
+  async function composeSnapshot(
+    fragment: string,
+    meta: CacheEntryMetadata
+  ): Promise<string> {
+    // Snapshots are shared between visitors, so they never carry a token
+    const finalHtml = composePage(
+      withScriptNonce(withCaptureToken(spaShellHtml, null), null),
+      spaRootElementRegex,
+      fragment,
+      meta
+    );
+
+    // Execute intercept script if configured
+    const interceptContext: InterceptContext = {
+      path: meta.path,
+      title: meta.title,
+      content: fragment,
+      originalHtml: spaShellHtml,
+      timestamp: meta.capturedAt,
+    };
+
+    return executeInterceptScript(finalHtml, interceptContext);
+  }
+
+  // Everything a composed page depends on besides the stored fragment, so the
+  // stored variants are only rebuilt when one of them changes
+  function getComposedFrom(meta: CacheEntryMetadata): string {
+    return sha256(
+      JSON.stringify([
+        spaShellFingerprint,
+        meta.contentHash,
+        meta.title,
+        meta.head ?? null,
+        intercept_script ?? null,
+      ])
+    );
+  }
+
+  // Compress the composed page and store the variants next to the fragment. The
+  // sidecar records what they were composed from, so a redeploy that changes
+  // the shell is noticed when the entry is next loaded
+  async function writeCompressedSnapshot(
+    diskCacheFilePath: string,
+    meta: CacheEntryMetadata,
+    html: string
+  ): Promise<MemoryCacheEntry["encodings"]> {
+    const encodings = await compressHtml(html);
+    for (const coding of CONTENT_CODINGS) {
+      await runtime.writeFile(
+        getCompressedFilePath(diskCacheFilePath, coding),
+        encodings[coding]
+      );
+    }
+    meta.composedFrom = getComposedFrom(meta);
+    await runtime.writeFile(
+      getMetadataFilePath(diskCacheFilePath),
+      JSON.stringify(meta, null, 2)
+    );
+    return encodings;
+  }
+
+  interface ComposedSnapshot {
+    html: string;
+    encodings: MemoryCacheEntry["encodings"];
+  }
+
+  // Read the stored variants, composing the page again (and running the
+  // intercept script) only when they were built from another shell or capture
+  async function readComposedSnapshot(
+    diskCacheFilePath: string,
+    meta: CacheEntryMetadata
+  ): Promise<ComposedSnapshot> {
+    if (meta.composedFrom === getComposedFrom(meta)) {
+      const encodings: MemoryCacheEntry["encodings"] = {};
+      for (const coding of CONTENT_CODINGS) {
+        const variantPath = getCompressedFilePath(diskCacheFilePath, coding);
+        if (await runtime.stat(variantPath)) {
+          encodings[coding] = await runtime.readBytes(variantPath);
+        }
+      }
+      if (CONTENT_CODINGS.every((coding) => encodings[coding])) {
+        const html = (await gunzipAsync(encodings.gzip!)).toString("utf-8");
+        return { html, encodings };
+      }
+    }
+
+    const html = await composeSnapshot(
+      await runtime.readText(diskCacheFilePath),
+      meta
+    );
+    const encodings = await writeCompressedSnapshot(
+      diskCacheFilePath,
+      meta,
+      html
+    );
+    const record = diskCacheIndex.get(diskCacheFilePath);
+    if (record) {
+      recordDiskCacheEntry(
+        diskCacheFilePath,
+        record.cacheKey,
+        await getCacheEntryBytes(diskCacheFilePath),
+        Date.now(),
+        record.modifiedAt
+      );
+    }
+    return { html, encodings };
+  }
+
+  // Concurrent misses for the same entry share one read or composition
+  const snapshotsInFlight = new Map<string, Promise<ComposedSnapshot>>();
+
+  function loadComposedSnapshot(
+    diskCacheFilePath: string,
+    meta: CacheEntryMetadata
+  ): Promise<ComposedSnapshot> {
+    let pending = snapshotsInFlight.get(diskCacheFilePath);
+    if (!pending) {
+      pending = readComposedSnapshot(diskCacheFilePath, meta).finally(() =>
+        snapshotsInFlight.delete(diskCacheFilePath)
+      );
+      snapshotsInFlight.set(diskCacheFilePath, pending);
+    }
+    return pending;
+  }
+
+  // Pre-compiled set of common static asset extensions for faster lookup
+  const STATIC_EXTENSIONS = new Set([
+    ".js",
+    ".css",
+    ".png",
+    ".jpg",
+    ".jpeg",
+    ".gif",
+    ".svg",
+    ".ico",
+    ".woff",
+    ".woff2",
+    ".ttf",
+    ".eot",
+    ".mp4",
+    ".webm",
+    ".mp3",
+    ".wav",
+    ".pdf",
+    ".zip",
+    ".json",
+    ".xml",
+  ]);
+
+  // Content types of the static extensions and their precompressed variants,
+  // matching what Bun reports so both runtimes send the same headers
+  const CONTENT_TYPES: Record<string, string> = {
+    ".js": "text/javascript;charset=utf-8",
+    ".css": "text/css;charset=utf-8",
+    ".png": "image/png",
+    ".jpg": "image/jpeg",
+    ".jpeg": "image/jpeg",
+    ".gif": "image/gif",
+    ".svg": "image/svg+xml",
+    ".ico": "image/x-icon",
+    ".woff": "font/woff",
+    ".woff2": "font/woff2",
+    ".ttf": "font/ttf",
+    ".eot": "application/vnd.ms-fontobject",
+    ".mp4": "video/mp4",
+    ".webm": "video/webm",
+    ".mp3": "audio/mpeg",
+    ".wav": "audio/x-wav",
+    ".pdf": "application/pdf",
+    ".zip": "application/zip",
+    ".json": "application/json;charset=utf-8",
+    ".xml": "application/xml",
+    ".gz": "application/gzip",
+  };
+
+  function getContentType(filePath: string): string {
+    return (
+      CONTENT_TYPES[extname(filePath).toLowerCase()] ||
+      "application/octet-stream"
+    );
+  }
+
+  const isStaticAsset = (path: string) => {
+    const lastDot = path.lastIndexOf(".");
+    if (lastDot === -1 || path.includes("?")) return false;
+
+    // Fast check: if the dot is in the last path segment and not too far from the end
+    const lastSlash = path.lastIndexOf("/");
+    if (lastDot <= lastSlash) return false;
+
+    const extension = path.substring(lastDot).toLowerCase();
+    return STATIC_EXTENSIONS.has(extension);
+  };
+
+  // Pre-compiled bot detection patterns for better performance
+  const BOT_PATTERNS = [
+    // Search engine crawlers
+    createSafeRegex("googlebot", "i"),
+    createSafeRegex("bingbot", "i"),
+    createSafeRegex("slurp", "i"), // Yahoo
+    createSafeRegex("duckduckbot", "i"),
+    createSafeRegex("baiduspider", "i"),
+    createSafeRegex("yandexbot", "i"),
+    createSafeRegex("facebookexternalhit", "i"),
+    createSafeRegex("twitterbot", "i"),
+    createSafeRegex("linkedinbot", "i"),
+    createSafeRegex("whatsapp", "i"),
+    createSafeRegex("telegrambot", "i"),
+
+    // SEO and monitoring tools
+    createSafeRegex("ahrefsbot", "i"),
+    createSafeRegex("semrushbot", "i"),
+    createSafeRegex("mj12bot", "i"),
+    createSafeRegex("dotbot", "i"),
+    createSafeRegex("rogerbot", "i"),
+    createSafeRegex("exabot", "i"),
+    createSafeRegex("facebot", "i"),
+    createSafeRegex("ia_archiver", "i"),
+
+    // Generic bot indicators
+    createSafeRegex("bot\\b", "i"),
+    createSafeRegex("crawler", "i"),
+    createSafeRegex("spider", "i"),
+    createSafeRegex("scraper", "i"),
+    createSafeRegex("curl", "i"),
+    createSafeRegex("wget", "i"),
+    createSafeRegex("python-requests", "i"),
+    createSafeRegex("node-fetch", "i"),
+    createSafeRegex("axios", "i"),
+  ];
+
+  // Cache bot detection results to avoid repeated regex operations
+  const botDetectionCache = new QuickLRU<string, boolean>({ maxSize: 1000 });
+
+  // Bot detection function with caching and ReDoS protection
+  function isCrawlerOrBot(userAgent: string): boolean {
+    if (!userAgent) return false;
+
+    // Check cache first
+    if (botDetectionCache.has(userAgent)) {
+      return botDetectionCache.get(userAgent)!;
+    }
+
+    // Perform detection
+    const isBot = BOT_PATTERNS.some((pattern) => pattern.test(userAgent));
+
+    // Cache result
+    botDetectionCache.set(userAgent, isBot);
+
+    return isBot;
+  }
+
+  // --- Admin API ---
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { "Content-Type": "application/json", ...securityHeaders },
+    });
+
+  // Returns a 401 response when the request does not carry a valid admin token
+  // with the scope
+  async function requireAdmin(
+    request: Request,
+    scope: AdminScope
+  ): Promise<Response | null> {
+    const authHeader = request.headers.get("Authorization");
+    if (await validateBearerToken(authHeader, jwtConfig, scope)) {
+      return null;
+    }
+    console.warn(
+      `Sterad Security: Unauthorized ${request.method} request blocked`
+    );
+    return new Response("Unauthorized", {
+      status: 401,
+      headers: {
+        ...securityHeaders,
+        "WWW-Authenticate": "Bearer",
+      },
+    });
+  }
+
+  // Remove entries from disk and memory; purges everything when no pattern is given.
+  // Purged pages can be captured again right away, so their cooldowns end too
+  async function purgeCacheEntries(pattern?: string): Promise<number> {
+    const purged = await purgeCacheFiles(
+      pattern,
+      ({ meta, diskCacheFilePath }) => {
+        forgetDiskCacheEntry(diskCacheFilePath);
+        memoryCache.delete(meta.path);
+        captureCooldowns.delete(meta.path);
+      }
+    );
+    if (!pattern) {
+      memoryCache.clear();
+      captureCooldowns.clear();
+    }
+    return purged;
+  }
+
+  async function getCacheStats(): Promise<SteradStats> {
+    const entries = (await listCacheEntries()).map(({ meta }) => meta);
+
+    return {
+      ...summarizeCacheEntries(entries),
+      memory: {
+        snapshots: { entries: memoryCache.size, bytes: memoryCache.bytes },
+        staticAssets: {
+          entries: staticAssetCache.size,
+          bytes: staticAssetCache.bytes,
+        },
+      },
+      disk: getDiskCacheUsage(),
+    };
+  }
+
+  async function handleAdminRequest(
+    request: Request,
+    url: URL
+  ): Promise<Response> {
+    const { pathname, searchParams } = url;
+    const method = request.method;
+
+    const unauthorized = await requireAdmin(
+      request,
+      method === "DELETE" ? "purge" : method === "POST" ? "reload" : "read"
+    );
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    try {
+      // GET /__sterad_admin/cache?pattern=/blog/*&page=1&limit=50
+      if (method === "GET" && pathname === "/__sterad_admin/cache") {
+        const pattern = searchParams.get("pattern");
+        const page = Math.max(
+          1,
+          parseInt(searchParams.get("page") || "1") || 1
+        );
+        const limit = Math.min(
+          500,
+          Math.max(1, parseInt(searchParams.get("limit") || "50") || 50)
+        );
+        const matcher = pattern ? compileCachePatterns([pattern]) : null;
+        const entries = (await listCacheEntries())
+          .filter(({ meta }) => !matcher || matcher.test(meta.path))
+          .map(({ meta, diskCacheFilePath }) => {
+            const record = diskCacheIndex.get(diskCacheFilePath);
+            return {
+              ...meta,
+              lastAccessed: record
+                ? new Date(record.lastAccessed).toISOString()
+                : null,
+            };
+          });
+
+        return jsonResponse({
+          total: entries.length,
+          page,
+          limit,
+          disk: getDiskCacheUsage(),
+          entries: entries.slice((page - 1) * limit, page * limit),
+        });
+      }
+
+      // GET /__sterad_admin/cache/entry?path=/about
+      if (method === "GET" && pathname === "/__sterad_admin/cache/entry") {
+        const path = searchParams.get("path");
+        const cacheKey = path ? cacheKeys.getCacheKeyFromPath(path) : null;
+        if (!cacheKey) {
+          return jsonResponse(
+            { error: "Missing or invalid path parameter" },
+            400
+          );
+        }
+        const diskCacheFilePath = getDiskCacheFilePath(cacheKey);
+
+        const meta = await readCacheMetadata(diskCacheFilePath);
+        if (
+          !(await runtime.stat(diskCacheFilePath)) ||
+          !isCacheEntryValid(meta)
+        ) {
+          return jsonResponse({ error: "Entry not found", path }, 404);
+        }
+
+        const content = await runtime.readText(diskCacheFilePath);
+        const { html } = await loadComposedSnapshot(diskCacheFilePath, meta);
+        return jsonResponse({ meta, content, html });
+      }
+
+      // DELETE /__sterad_admin/cache?pattern=/blog/*
+      if (method === "DELETE" && pathname === "/__sterad_admin/cache") {
+        const pattern = searchParams.get("pattern");
+        if (!pattern) {
+          return jsonResponse({ error: "Missing pattern parameter" }, 400);
+        }
+        const purged = await purgeCacheEntries(pattern);
+        console.log(
+          `Sterad: Purged ${purged} cache entries matching ${pattern}`
+        );
+        return jsonResponse({ purged, pattern });
+      }
+
+      // DELETE /__sterad_admin/cache/all
+      if (method === "DELETE" && pathname === "/__sterad_admin/cache/all") {
+        const purged = await purgeCacheEntries();
+        console.log(`Sterad: Purged all ${purged} cache entries`);
+        return jsonResponse({ purged });
+      }
+
+      // GET /__sterad_admin/captures/disagreements
+      if (
+        method === "GET" &&
+        pathname === "/__sterad_admin/captures/disagreements"
+      ) {
+        const disagreements = listCaptureDisagreements();
+        return jsonResponse({
+          quorum: capture_quorum,
+          total: disagreements.length,
+          disagreements,
+        });
+      }
+
+      // POST /__sterad_admin/reload
+      if (method === "POST" && pathname === "/__sterad_admin/reload") {
+        try {
+          await reloadSterad("admin request");
+          return jsonResponse({ reloaded: true });
+        } catch (error: any) {
+          return jsonResponse({ reloaded: false, error: error.message }, 400);
+        }
+      }
+
+      // GET /__sterad_admin/stats
+      if (method === "GET" && pathname === "/__sterad_admin/stats") {
+        return jsonResponse(await getCacheStats());
+      }
+
+      return jsonResponse({ error: "Not Found" }, 404);
+    } catch (error: any) {
+      console.error(`Sterad Admin Error: ${error.message}`);
+      return jsonResponse({ error: "Admin request failed" }, 500);
+    }
+  }
+
+  // --- Diagnostics ---
+  // With debug_headers, or for a single request with ?__sterad_debug=1 and an
+  // admin token, page responses report how they were served
+
+  type CacheDecision =
+    | "HIT-MEMORY" // Snapshot from the memory cache
+    | "HIT-DISK" // Snapshot from the disk cache
+    | "MISS-CAPTURE" // Shell with the capture script
+    | "BYPASS-HUMAN" // Plain shell for a human in crawlers_only mode
+    | "BYPASS-ROUTE" // Plain shell for a route that isn't cached
+    | "STATIC"; // Static asset
+
+  interface Diagnostics {
+    decision: CacheDecision;
+    isBot: boolean;
+    path: string;
+    cacheKey: string;
+    capturedAt?: number; // Snapshot the decision was based on
+  }
+
+  // Cache keys leave the debug parameter out, also for captures that post it
+  // back as part of location.search
+  async function isDebugRequest(request: Request, url: URL): Promise<boolean> {
+    if (!url.searchParams.has(DEBUG_QUERY_PARAM)) {
+      return debug_headers!;
+    }
+    const requested = url.searchParams.get(DEBUG_QUERY_PARAM) === "1";
+    return (
+      debug_headers! ||
+      (requested &&
+        (await validateBearerToken(
+          request.headers.get("Authorization"),
+          jwtConfig,
+          "read"
+        )))
+    );
+  }
+
+  function withDiagnostics(
+    response: Response,
+    diagnostics: Diagnostics
+  ): Response {
+    const { decision, isBot, path, cacheKey, capturedAt } = diagnostics;
+    response.headers.set("X-Sterad-Cache", decision);
+    response.headers.set("X-Sterad-Bot", isBot ? "true" : "false");
+    response.headers.set("X-Sterad-Route", describeRouteMatch(path));
+    response.headers.set("X-Sterad-Cache-Key", encodeURI(cacheKey));
+    if (capturedAt !== undefined) {
+      response.headers.set(
+        "X-Sterad-Captured-At",
+        new Date(capturedAt).toISOString()
+      );
+      response.headers.set(
+        "X-Sterad-Stale",
+        isSnapshotStale(path, capturedAt) ? "true" : "false"
+      );
+    }
+    return response;
+  }
+
+  // --- Error responses ---
+
+  // Custom page for runtime errors, read up front so it can't fail at error time
+  async function loadErrorPage(config: Config): Promise<string | null> {
+    return config.error_page ? runtime.readText(config.error_page) : null;
+  }
+  let errorPageHtml = await loadErrorPage(config);
+
+  function internalErrorResponse(): Response {
+    return errorPageHtml
+      ? new Response(errorPageHtml, {
+          status: 500,
+          headers: { "Content-Type": "text/html", ...securityHeaders },
+        })
+      : new Response("Internal Server Error", {
+          status: 500,
+          headers: securityHeaders,
+        });
+  }
+
+  function notFoundResponse(): Response {
+    return new Response("Not Found", { status: 404, headers: securityHeaders });
+  }
+
+  function badRequestResponse(): Response {
+    return new Response("Bad Request", {
+      status: 400,
+      headers: securityHeaders,
+    });
+  }
+
+  // Methods each admin route answers besides OPTIONS
+  const ADMIN_ROUTE_METHODS: Record<string, string[]> = {
+    "/__sterad_admin/cache": ["GET", "DELETE"],
+    "/__sterad_admin/cache/entry": ["GET"],
+    "/__sterad_admin/cache/all": ["DELETE"],
+    "/__sterad_admin/captures/disagreements": ["GET"],
+    "/__sterad_admin/reload": ["POST"],
+    "/__sterad_admin/stats": ["GET"],
+  };
+
+  // Methods each endpoint answers; everything outside the admin API that isn't
+  // the capture endpoint is a page or asset. null for unknown admin routes
+  function getAllowedMethods(pathname: string): string[] | null {
+    if (pathname === "/__sterad_capture") {
+      return ["POST", "DELETE", "OPTIONS"];
+    }
+    if (pathname.startsWith("/__sterad_admin/")) {
+      const methods = ADMIN_ROUTE_METHODS[pathname];
+      return methods ? [...methods, "OPTIONS"] : null;
+    }
+    return ["GET", "HEAD", "OPTIONS"];
+  }
+
+  function methodNotAllowedResponse(allowedMethods: string[]): Response {
+    return new Response("Method Not Allowed", {
+      status: 405,
+      headers: { Allow: allowedMethods.join(", "), ...securityHeaders },
+    });
+  }
+
+  await migrateLegacyCacheLayout();
+  await loadDiskCacheIndex();
+  await enforceDiskCacheLimits();
+  function scheduleDiskCacheSweep(): ReturnType<typeof setInterval> {
+    const timer = setInterval(() => {
+      sweepDiskCache().catch((error) =>
+        console.error(`Sterad: Disk cache sweep failed: ${error}`)
+      );
+    }, disk_cache_sweep_interval! * 1000);
+    // The sweep alone shouldn't keep an embedding process running
+    timer.unref();
+    return timer;
+  }
+  let diskCacheSweepTimer = scheduleDiskCacheSweep();
+
+  // --- Hot reload ---
+  // The config file (when there is one) and index.html are reloaded when they
+  // change (with hot_reload), through the admin API or through reload(). All
+  // new state is built before anything is swapped, so an invalid config or a
+  // broken shell leaves the running one alone
+
+  const RESTART_ONLY_KEYS = ["spa_dist", "port", "hot_reload"] as const;
+
+  // Without a config file, reloads keep the running config and only pick up
+  // index.html and error_page changes
+  async function readNextConfig(input?: Config): Promise<Config> {
+    if (input) {
+      return validateConfig(input);
+    }
+    return configPath ? loadConfigFile(configPath, runtime) : config;
+  }
+
+  async function reloadConfigAndShell(input?: Config): Promise<void> {
+    const next = await readNextConfig(input);
+    for (const key of RESTART_ONLY_KEYS) {
+      if (next[key] !== config[key]) {
+        console.warn(
+          `Sterad: "${key}" changed in the config; restart Sterad to apply it.`
+        );
+      }
+    }
+    const shell = await loadSpaShell();
+    const errorPage = await loadErrorPage(next);
+    const cacheRegex = compileCachePatterns(next.cache_routes);
+    const noCacheRegex = compileCachePatterns(next.not_cache_routes!);
+    const ttlRules = compileTtlRules(next.cache_ttl_routes!);
+    const nextCacheKeys = createCacheKeys(next);
+    const headers = mergeHeaders(
+      DEFAULT_SECURITY_HEADERS,
+      next.security_headers!
+    );
+    const headerRules = compileSecurityHeaderRules(
+      next.security_headers_routes!,
+      headers
+    );
+    const caches = createMemoryCaches(next);
+
+    // Synchronous from here on, so each request sees either the old or the new
+    // state. Snapshots in memory were composed from the old shell, so the
+    // memory caches start empty
+    config = { ...next, spa_dist, cache_dir, port, hot_reload };
+    ({
+      cache_routes,
+      not_cache_routes,
+      static_cache_max_file_bytes,
+      serve_cached_to,
+      max_content_length,
+      max_title_length,
+      max_tag_ratio,
+      intercept_script,
+      cache_ttl,
+      cache_ttl_routes,
+      metrics_enabled,
+      metrics_require_auth,
+      capture_token_ttl,
+      capture_quorum,
+      capture_quorum_window,
+      trust_proxy,
+      trusted_proxy_hops,
+      capture_rate_limit,
+      capture_rate_burst,
+      capture_path_cooldown,
+      max_disk_cache_bytes,
+      max_disk_cache_entries,
+      disk_cache_sweep_interval,
+      security_headers,
+      security_headers_routes,
+      csp_nonce,
+      debug_headers,
+    } = next);
+    CACHE_REGEX = cacheRegex;
+    NO_CACHE_REGEX = noCacheRegex;
+    CACHE_TTL_RULES = ttlRules;
+    cacheKeys = nextCacheKeys;
+    securityHeaders = headers;
+    SECURITY_HEADER_RULES = headerRules;
+    sanitizerPolicy = createSanitizerPolicy(next);
+    errorPageHtml = errorPage;
+    applySpaShell(shell);
+    ({ snapshots: memoryCache, staticAssets: staticAssetCache } = caches);
+    clearInterval(diskCacheSweepTimer);
+    diskCacheSweepTimer = scheduleDiskCacheSweep();
+
+    await enforceDiskCacheLimits();
+  }
+
+  // Reloads run one at a time; a failed reload is logged and rethrown
+  let reloadQueue: Promise<void> = Promise.resolve();
+
+  function reloadSterad(reason: string, input?: Config): Promise<void> {
+    const reload = reloadQueue.then(async () => {
+      try {
+        await reloadConfigAndShell(input);
+        incrementCounter("sterad_config_reloads_total", { result: "success" });
+        console.log(`Sterad: Reloaded config and shell (${reason}).`);
+      } catch (error: any) {
+        incrementCounter("sterad_config_reloads_total", { result: "failure" });
+        console.error(
+          `Sterad Error: Reload failed (${reason}), keeping the running config: ${error.message}`
+        );
+        throw error;
+      }
+    });
+    reloadQueue = reload.catch(() => {});
+    return reload;
+  }
+
+  // Watch the directories rather than the files, since deploys usually replace
+  // files instead of writing to them
+  const watchers: FSWatcher[] = [];
+  let closed = false;
+
+  function watchForReload(directory: string, fileName: string): void {
+    let debounce: ReturnType<typeof setTimeout> | undefined;
+    const watcher = watch(directory, (_event, changed) => {
+      if (changed !== fileName) return;
+      clearTimeout(debounce);
+      debounce = setTimeout(() => {
+        if (closed) return;
+        reloadSterad(`${fileName} changed`).catch(() => {});
+      }, 250);
+    });
+    watchers.push(watcher);
+  }
+
+  if (watchFiles) {
+    if (configPath) {
+      watchForReload(dirname(resolve(configPath)), basename(configPath));
+    }
+    watchForReload(spaDistAbsolute, "index.html");
+  }
+
+  async function close(): Promise<void> {
+    closed = true;
+    clearInterval(diskCacheSweepTimer);
+    for (const watcher of watchers) {
+      watcher.close();
+    }
+    await reloadQueue;
+  }
+
+  async function routeRequest(
+    request: Request,
+    server?: RequestIPProvider
+  ): Promise<Response> {
+    const url = new URL(request.url);
+    const { pathname } = url;
+    const method = request.method;
+    const allowedMethods = getAllowedMethods(pathname);
+
+    // Answer OPTIONS with the methods the endpoint supports. Admin routes
+    // answer too, since preflight requests carry no credentials
+    if (method === "OPTIONS") {
+      if (!allowedMethods) {
+        return notFoundResponse();
+      }
+      return new Response(null, {
+        status: 204,
+        headers: { Allow: allowedMethods.join(", "), ...securityHeaders },
+      });
+    }
+
+    // Handle JWT-protected admin API
+    if (pathname.startsWith("/__sterad_admin/")) {
+      if (allowedMethods && !allowedMethods.includes(method)) {
+        return methodNotAllowedResponse(allowedMethods);
+      }
+      return handleAdminRequest(request, url);
+    }
+    const isRead = method === "GET" || method === "HEAD";
+
+    // Handle Prometheus metrics endpoint
+    if (isRead && pathname === "/__sterad_metrics" && metrics_enabled) {
+      if (metrics_require_auth) {
+        const unauthorized = await requireAdmin(request, "read");
+        if (unauthorized) {
+          return unauthorized;
+        }
+      }
+      return new Response(renderMetrics(), {
+        headers: {
+          "Content-Type": "text/plain; version=0.0.4",
+          ...securityHeaders,
+        },
+      });
+    }
+
+    // Handle cache info endpoint
+    if (isRead && pathname === "/__sterad_cache_info") {
+      const queryPath = url.searchParams.get("path");
+      const cacheKey = queryPath
+        ? cacheKeys.getCacheKeyFromPath(queryPath)
+        : null;
+
+      if (!cacheKey) {
+        return new Response(
+          JSON.stringify({ error: "Missing or invalid path parameter" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json", ...securityHeaders },
+          }
+        );
+      }
+
+      const diskCacheFilePath = getDiskCacheFilePath(cacheKey);
+      const meta = await readCacheMetadata(diskCacheFilePath);
+      if ((await runtime.stat(diskCacheFilePath)) && isCacheEntryValid(meta)) {
+        const expiresAt = getCacheExpiry(
+          getCacheKeyPathname(cacheKey),
+          meta.capturedAt
+        );
+        return new Response(
+          JSON.stringify({
+            cached: true,
+            lastCached: new Date(meta.capturedAt).toISOString(),
+            expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+            stale: expiresAt !== null && Date.now() >= expiresAt,
+            size: meta.size,
+            title: meta.title,
+            contentHash: meta.contentHash,
+            source: meta.source,
+            status: meta.status ?? 200,
+            location: meta.location ?? null,
+            path: queryPath,
+            cacheKey,
+          }),
+          {
+            headers: {
+              "Content-Type": "application/json",
+              ...securityHeaders,
+            },
+          }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({
+          cached: false,
+          lastCached: null,
+          expiresAt: null,
+          stale: false,
+          evictedAt: recentDiskEvictions.has(cacheKey)
+            ? new Date(recentDiskEvictions.get(cacheKey)!).toISOString()
+            : null,
+          path: queryPath,
+        }),
+        {
+          headers: { "Content-Type": "application/json", ...securityHeaders },
+        }
+      );
+    }
+
+    // Handle GET and HEAD Requests; the body is dropped for HEAD on the way out
+    if (isRead && pathname !== "/__sterad_capture") {
+      const path = decodePath(pathname);
+      if (path === null) {
+        return badRequestResponse();
+      }
+      const debug = await isDebugRequest(request, url);
+      // Snapshots are keyed by path and normalized query; assets by path
+      const cacheKey = isStaticAsset(path)
+        ? path
+        : cacheKeys.getCacheKey(path, url.search);
+      const userAgent = request.headers.get("User-Agent") || "";
+      const isBot = isCrawlerOrBot(userAgent);
+      const diagnose = (
+        response: Response,
+        decision: CacheDecision,
+        capturedAt?: number
+      ) =>
+        debug
+          ? withDiagnostics(response, {
+              decision,
+              isBot,
+              path,
+              cacheKey,
+              capturedAt,
+            })
+          : response;
+      const shouldServeCached =
+        serve_cached_to === "all_clients" ||
+        (serve_cached_to === "crawlers_only" && isBot);
+
+      // 1. Try to serve from memory cache (only if we should serve cached content)
+      // Stale snapshots are still served to bots (stale-while-revalidate), while
+      // humans fall through so the capture script can refresh the entry
+      const isStatic = isStaticAsset(path);
+      if (shouldServeCached && !isStatic && memoryCache.has(cacheKey)) {
+        const entry = memoryCache.get(cacheKey)!;
+        const { meta } = entry;
+        if (isBot || !isSnapshotStale(path, meta!.capturedAt)) {
+          incrementCounter("sterad_memory_cache_lookups_total", {
+            tier: "snapshot",
+            result: "hit",
+          });
+          // Keep the disk copy from being evicted while it's in use
+          touchDiskCacheEntry(getDiskCacheFilePath(cacheKey));
+          return diagnose(
+            createSnapshotResponse(request, entry, path, isBot),
+            "HIT-MEMORY",
+            meta!.capturedAt
+          );
+        }
+      }
+      if (shouldServeCached && !isStatic) {
+        incrementCounter("sterad_memory_cache_lookups_total", {
+          tier: "snapshot",
+          result: "miss",
+        });
+      }
+
+      // 2. Serve static assets from their own memory tier or from spa_dist
+      if (isStatic) {
+        const cached = staticAssetCache.get(path);
+        incrementCounter("sterad_memory_cache_lookups_total", {
+          tier: "static",
+          result: cached ? "hit" : "miss",
+        });
+        if (cached) {
+          const { body, headers } = selectRepresentation(cached, request);
+          return diagnose(
+            createConditionalResponse(request, body, 200, {
+              "Content-Type": cached.type,
+              ...headers,
+              ...getCacheHeaders(true, isBot, getSecurityHeaders(path)),
+            }),
+            "STATIC"
+          );
+        }
+
+        try {
+          const secureFilePath = getSecureStaticFilePath(path);
+          if (!secureFilePath) {
+            console.warn(
+              `Sterad Security: Blocked static asset path traversal: ${path}`
+            );
+            return notFoundResponse();
+          }
+
+          const file = await openStaticFile(secureFilePath);
+          if (file) {
+            const variants = await findPrecompressedAssets(secureFilePath);
+            const entry = await addToStaticAssetCache(path, file, variants);
+            if (entry) {
+              const { body, headers } = selectRepresentation(entry, request);
+              return diagnose(
+                createConditionalResponse(request, body, 200, {
+                  "Content-Type": file.type,
+                  ...headers,
+                  ...getCacheHeaders(true, isBot, getSecurityHeaders(path)),
+                }),
+                "STATIC"
+              );
+            }
+
+            // Files over the per-file limit are streamed from disk instead
+            const available = CONTENT_CODINGS.filter(
+              (coding) => variants[coding]
+            );
+            const coding = negotiateEncoding(
+              request.headers.get("Accept-Encoding"),
+              available
+            );
+            const etag = getStaticAssetEtag(file);
+            const response = createConditionalResponse(
+              request,
+              runtime.streamFile(coding ? variants[coding]!.path : file.path),
+              200,
+              {
+                "Content-Type": file.type,
+                ...(coding
+                  ? {
+                      "Content-Encoding": coding,
+                      ETag: getEncodedEtag(etag, coding),
+                    }
+                  : { ETag: etag }),
+                "Last-Modified": new Date(file.lastModified).toUTCString(),
+                ...(available.length > 0 ? { Vary: "Accept-Encoding" } : {}),
+                ...getCacheHeaders(true, isBot, getSecurityHeaders(path)),
+              }
+            );
+            return diagnose(response, "STATIC");
+          }
+          return diagnose(notFoundResponse(), "STATIC");
+        } catch (error) {
+          console.error(
+            `Sterad: Failed to serve static asset ${path}: ${error}`
+          );
+          return internalErrorResponse();
+        }
+      }
+
+      const isCacheableRoute = shouldCachePath(path);
+
+      // 3. Try to serve from disk cache (only if we should serve cached content)
+      // Humans in crawlers_only mode still need the lookup on routes with a TTL,
+      // so that a stale snapshot gets them the capture script
+      let hasStaleSnapshot = false;
+      let snapshotCapturedAt: number | undefined;
+      if (isCacheableRoute && (shouldServeCached || getCacheTtl(path) > 0)) {
+        const diskCacheFilePath = getDiskCacheFilePath(cacheKey);
+        const meta = await readCacheMetadata(diskCacheFilePath);
+        // Entries from older Sterad versions are treated as a cache miss
+        if (
+          (await runtime.stat(diskCacheFilePath)) &&
+          isCacheEntryValid(meta)
+        ) {
+          hasStaleSnapshot = isSnapshotStale(path, meta.capturedAt);
+          snapshotCapturedAt = meta.capturedAt;
+          if (shouldServeCached && (isBot || !hasStaleSnapshot)) {
+            try {
+              const { html, encodings } = await loadComposedSnapshot(
+                diskCacheFilePath,
+                meta
+              );
+              const entry = addToMemoryCache(cacheKey, html, meta, encodings);
+              touchDiskCacheEntry(diskCacheFilePath);
+              incrementCounter("sterad_disk_cache_lookups_total", {
+                result: "hit",
+              });
+              return diagnose(
+                createSnapshotResponse(request, entry, path, isBot),
+                "HIT-DISK",
+                meta.capturedAt
+              );
+            } catch (error) {
+              console.error(
+                `Sterad: Failed to serve from disk cache for ${path}: ${error}`
+              );
+            }
+          }
+        }
+      }
+      if (shouldServeCached && isCacheableRoute) {
+        incrementCounter("sterad_disk_cache_lookups_total", { result: "miss" });
+      }
+
+      incrementCounter("sterad_shell_fallbacks_total", {
+        client: isBot ? "bot" : "human",
+      });
+      if (!isCacheableRoute) {
+        return diagnose(
+          createShellResponse(spaShellHtml, path, null),
+          "BYPASS-ROUTE"
+        );
+      }
+
+      // 4. Serve the SPA shell as fallback
+      // If we should serve cached content but don't have it, inject the capture script
+      // If we shouldn't serve cached content (regular browsers in crawlers_only mode), serve plain SPA
+      // unless the snapshot went stale, in which case this visitor refreshes it
+      if (shouldServeCached || hasStaleSnapshot) {
+        return diagnose(
+          createShellResponse(spaHtmlWithInjectScript, path, cacheKey),
+          "MISS-CAPTURE",
+          snapshotCapturedAt
+        );
+      } else {
+        // Still issue a token so window.Sterad.triggerCache() works here
+        return diagnose(
+          createShellResponse(spaShellHtml, path, cacheKey),
+          "BYPASS-HUMAN",
+          snapshotCapturedAt
+        );
+      }
+    }
+
+    // Handle POST /__sterad_capture
+    if (method === "POST" && pathname === "/__sterad_capture") {
+      // Rate limits are checked before the payload reaches the validators
+      const client = getClientIp(
+        request,
+        server,
+        trust_proxy ? trusted_proxy_hops : undefined
+      );
+      const retryAfter = consumeCaptureBudget(client);
+      if (retryAfter) {
+        incrementCounter("sterad_captures_total", {
+          result: "rejected",
+          reason: "rate_limited",
+        });
+        return tooManyCaptures(retryAfter);
+      }
+
+      let leasedKey: string | null = null;
+      let cached = false;
+      try {
+        const { title, content, path, manual, token, head, status, location } =
+          await request.json();
+        // Captures are stored under the key GET requests look up
+        const cacheKey =
+          typeof path === "string" ? cacheKeys.getCacheKeyFromPath(path) : "";
+        if (cacheKey === null) {
+          incrementCounter("sterad_captures_total", {
+            result: "rejected",
+            reason: "invalid_payload",
+          });
+          return badRequestResponse();
+        }
+        // The token is bound to the cache key the shell was served for. It's
+        // checked first so requests without one can't hold the capture lease
+        // or probe a path's cooldown
+        if (!verifyCaptureToken(token, cacheKey)) {
+          console.warn(
+            `Sterad Security: Missing, expired or mismatched capture token for path: ${path}`
+          );
+          incrementCounter("sterad_captures_total", {
+            result: "rejected",
+            reason: "invalid_token",
+          });
+          return new Response("Content captured and cached successfully", {
+            headers: securityHeaders,
+          });
+        }
+
+        // Only one capture per cache key is processed at a time
+        if (cacheKey) {
+          const wait = acquireCaptureLease(cacheKey);
+          if (wait) {
+            incrementCounter("sterad_captures_total", {
+              result: "rejected",
+              reason: "path_cooldown",
+            });
+            return tooManyCaptures(wait);
+          }
+          leasedKey = cacheKey;
+        }
+        // Validate input types and lengths
+        if (
+          typeof title !== "string" ||
+          !content ||
+          typeof content !== "string"
+        ) {
+          console.error(
+            "Sterad Capture Error: Missing path or content in payload.",
+            {
+              content,
+              title,
+            }
+          );
+          incrementCounter("sterad_captures_total", {
+            result: "rejected",
+            reason: "invalid_payload",
+          });
+          return new Response("Content captured and cached successfully", {
+            headers: securityHeaders,
+          });
+        }
+
+        // Validate title length
+        if (title.length > max_title_length!) {
+          console.warn(
+            `Sterad Security: Title too long: ${title.length} chars (max: ${max_title_length})`
+          );
+          incrementCounter("sterad_captures_total", {
+            result: "rejected",
+            reason: "title_length",
+          });
+          return new Response("Content captured and cached successfully", {
+            headers: securityHeaders,
+          });
+        }
+
+        // Validate path parameter
+        if (!path || typeof path !== "string") {
+          console.error(
+            "Sterad Capture Error: Missing or invalid path in payload."
+          );
+          incrementCounter("sterad_captures_total", {
+            result: "rejected",
+            reason: "invalid_payload",
+          });
+          return new Response("Content captured and cached successfully", {
+            headers: securityHeaders,
+          });
+        }
+
+        const validation = isSafeMainContent(content);
+        if (!validation.isValid) {
+          console.error(
+            `Sterad Security Violation: Rejected unsafe content for path: ${path}  ${content}`
+          );
+          incrementCounter("sterad_captures_total", {
+            result: "rejected",
+            reason: validation.category!,
+          });
+          // avoid letting client know if the content was rejected
+          return new Response("Content captured and cached successfully", {
+            headers: securityHeaders,
+          });
+        }
+        const headValidation = validateCapturedHead(head, url.host);
+        if (!headValidation.head) {
+          console.error(
+            `Sterad Security Violation: Rejected head metadata for path: ${path} (${headValidation.reason})`
+          );
+          incrementCounter("sterad_captures_total", {
+            result: "rejected",
+            reason: "invalid_head",
+          });
+          return new Response("Content captured and cached successfully", {
+            headers: securityHeaders,
+          });
+        }
+        const captureStatus = validateCaptureStatus(status, location);
+        if (!captureStatus) {
+          console.error(
+            `Sterad Security Violation: Rejected status ${status} (location: ${location}) for path: ${path}`
+          );
+          incrementCounter("sterad_captures_total", {
+            result: "rejected",
+            reason: "invalid_status",
+          });
+          return new Response("Content captured and cached successfully", {
+            headers: securityHeaders,
+          });
+        }
+        // ? extra sanitization
+        const sanitizedMainContent = sanitizeHtml(content);
+
+        const diskFile = getDiskCacheFilePath(cacheKey);
+        // In quorum mode the capture waits until enough clients agree
+        if (
+          capture_quorum! > 1 &&
+          !recordCaptureCandidate(
+            cacheKey,
+            {
+              title,
+              fragment: sanitizedMainContent,
+              head: headValidation.head,
+              status: captureStatus,
+            },
+            client
+          )
+        ) {
+          incrementCounter("sterad_captures_total", {
+            result: "quarantined",
+            reason: "quorum_pending",
+          });
+          return new Response("Content captured and cached successfully", {
+            headers: securityHeaders,
+          });
+        }
+
+        // Only the fragment is stored; the page is rebuilt from the current
+        // shell at serve time
+        const meta: CacheEntryMetadata = {
+          path: cacheKey,
+          format: "fragment",
+          capturedAt: Date.now(),
+          contentHash: sha256(sanitizedMainContent),
+          title,
+          size: Buffer.byteLength(sanitizedMainContent, "utf8"),
+          source: {
+            userAgent: isCrawlerOrBot(request.headers.get("User-Agent") || "")
+              ? "bot"
+              : "human",
+            manual: manual === true,
+          },
+          shellFingerprint: spaShellFingerprint,
+          head: headValidation.head,
+          ...captureStatus,
+        };
+
+        const dirForFile = dirname(diskFile);
+        if (!existsSync(dirForFile)) {
+          mkdirSync(dirForFile, { recursive: true });
+        }
+        await runtime.writeFile(diskFile, sanitizedMainContent);
+        // Writes the sidecar along with the compressed variants
+        await writeCompressedSnapshot(
+          diskFile,
+          meta,
+          await composeSnapshot(sanitizedMainContent, meta)
+        );
+        recordDiskCacheEntry(
+          diskFile,
+          cacheKey,
+          await getCacheEntryBytes(diskFile)
+        );
+        // Drop the old entry so the new capture is picked up
+        memoryCache.delete(cacheKey);
+        cached = true;
+        await enforceDiskCacheLimits();
+        incrementCounter("sterad_captures_total", {
+          result: "accepted",
+          reason: "none",
+        });
+
+        return new Response("Content captured and cached successfully", {
+          headers: securityHeaders,
+        });
+      } catch (error: any) {
+        console.error(
+          `Sterad Server Error: Failed to process capture request: ${error.message}`
+        );
+        incrementCounter("sterad_captures_total", {
+          result: "rejected",
+          reason: "invalid_payload",
+        });
+        return new Response("Content captured and cached successfully", {
+          headers: securityHeaders,
+        });
+      } finally {
+        if (leasedKey) {
+          releaseCaptureLease(leasedKey, cached);
+        }
+      }
+    }
+
+    if (method === "DELETE" && pathname === "/__sterad_capture") {
+      console.log("Sterad: Received DELETE request");
+
+      // Check JWT authentication for admin routes
+      const unauthorized = await requireAdmin(request, "purge");
+      if (unauthorized) {
+        return unauthorized;
+      }
+
+      // Only authenticated admins get here, so failures are reported plainly
+      let path: unknown;
+      try {
+        ({ path } = await request.json());
+      } catch {
+        path = null;
+      }
+      if (!path || typeof path !== "string") {
+        return new Response("Missing path", {
+          status: 400,
+          headers: securityHeaders,
+        });
+      }
+      const cacheKey = cacheKeys.getCacheKeyFromPath(path);
+      if (cacheKey === null) {
+        return new Response("Invalid path", {
+          status: 400,
+          headers: securityHeaders,
+        });
+      }
+      // Remove from memory cache
+      memoryCache.delete(cacheKey);
+      // Remove from disk cache
+      await deleteCacheEntry(getDiskCacheFilePath(cacheKey));
+      return new Response("Cache entry deleted", { headers: securityHeaders });
+    }
+
+    return methodNotAllowedResponse(allowedMethods!);
+  }
+
+  // HEAD gets the headers GET would get and no body, whether or not the host
+  // server strips it
+  function withoutBody(response: Response): Response {
+    if (!response.body) {
+      return response;
+    }
+    void response.body.cancel();
+    return new Response(null, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  }
+
+  // Runtime errors become the 500 page instead of escaping to the host server
+  const handler = withRequestMetrics(async (request, server) => {
+    let response: Response;
+    try {
+      response = await routeRequest(request, server);
+    } catch (error) {
+      console.error("Sterad Server Runtime Error:", error);
+      response = internalErrorResponse();
+    }
+    return request.method === "HEAD" ? withoutBody(response) : response;
+  });
+
+  return Object.assign(handler, {
+    close,
+    purge: purgeCacheEntries,
+    stats: getCacheStats,
+    reload: (next?: Config) => reloadSterad("reload()", next),
+  });
+}
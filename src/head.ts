@@ -0,0 +1,244 @@
+// Head metadata captured alongside the page content.
+// The client sends the SPA's per-page description, Open Graph and Twitter
+// tags, canonical link and JSON-LD blocks; they are validated here and swapped
+// into the shell's <head> when a snapshot is composed.
+
+export interface CapturedMetaTag {
+  name?: string; // e.g. "description", "twitter:card"
+  property?: string; // e.g. "og:title"
+  content: string;
+}
+
+export interface CapturedHead {
+  meta: CapturedMetaTag[];
+  canonical: string | null;
+  jsonLd: string[]; // Re-serialized JSON documents
+}
+
+export interface HeadValidationResult {
+  head: CapturedHead | null;
+  reason?: string;
+}
+
+const MAX_META_TAGS = 50;
+const MAX_META_CONTENT_LENGTH = 2000;
+const MAX_URL_LENGTH = 2048;
+const MAX_JSON_LD_BLOCKS = 10;
+const MAX_JSON_LD_LENGTH = 100 * 1024;
+
+// Keys a captured meta tag may use; entries ending in ":" allow the family
+const ALLOWED_META_KEYS = ["description", "robots", "og:", "twitter:"];
+const META_ATTRIBUTES = new Set(["name", "property", "content"]);
+
+// Meta values that are fetched by unfurlers must be http(s) URLs
+const URL_META_KEY = /^(og:(url|image|video|audio)|twitter:(image|player))/;
+// Like the canonical link, og:url names the page itself, so it must stay on
+// the site: a forged capture can't hand the page's ranking elsewhere. Media
+// URLs may point at a CDN.
+const PAGE_URL_META_KEY = "og:url";
+
+const EMPTY_HEAD: CapturedHead = {
+  meta: [],
+  canonical: null,
+  jsonLd: [],
+};
+
+function isAllowedMetaKey(key: string): boolean {
+  return ALLOWED_META_KEYS.some((allowed) =>
+    allowed.endsWith(":") ? key.startsWith(allowed) : key === allowed
+  );
+}
+
+// With a host, the URL must also point at it; the scheme may differ, as TLS
+// often ends at a proxy in front of Sterad
+function isHttpUrl(value: string, host?: string): boolean {
+  if (value.length > MAX_URL_LENGTH) {
+    return false;
+  }
+  try {
+    // Relative URLs resolve against a placeholder origin
+    const url = new URL(value, `http://${host ?? "sterad.invalid"}`);
+    return (
+      (url.protocol === "http:" || url.protocol === "https:") &&
+      (host === undefined || url.host === host)
+    );
+  } catch {
+    return false;
+  }
+}
+
+function metaKey(tag: CapturedMetaTag): string {
+  return tag.property ? `property:${tag.property}` : `name:${tag.name}`;
+}
+
+function validateMetaTag(tag: unknown, host: string): CapturedMetaTag | string {
+  if (!tag || typeof tag !== "object" || Array.isArray(tag)) {
+    return "Meta tag must be an object";
+  }
+  for (const attribute of Object.keys(tag)) {
+    if (!META_ATTRIBUTES.has(attribute)) {
+      return `Disallowed attribute "${attribute}" on <meta>`;
+    }
+  }
+
+  const { name, property, content } = tag as Record<string, unknown>;
+  const key = property ?? name;
+  if (
+    typeof key !== "string" ||
+    (name !== undefined && property !== undefined)
+  ) {
+    return "Meta tag needs exactly one of name or property";
+  }
+  const normalizedKey = key.toLowerCase();
+  if (!isAllowedMetaKey(normalizedKey)) {
+    return `Disallowed meta tag "${key}"`;
+  }
+  if (typeof content !== "string" || content.length > MAX_META_CONTENT_LENGTH) {
+    return `Invalid content for meta tag "${key}"`;
+  }
+  if (URL_META_KEY.test(normalizedKey) && !isHttpUrl(content)) {
+    return `Meta tag "${key}" must be an http(s) URL`;
+  }
+  if (normalizedKey === PAGE_URL_META_KEY && !isHttpUrl(content, host)) {
+    return `Meta tag "${key}" must point at ${host}`;
+  }
+
+  return property !== undefined
+    ? { property: normalizedKey, content }
+    : { name: normalizedKey, content };
+}
+
+function validateJsonLd(block: unknown): string | null {
+  if (typeof block !== "string" || block.length > MAX_JSON_LD_LENGTH) {
+    return null;
+  }
+  // Closing the script element or opening a comment would escape the block
+  if (/<\/script/i.test(block) || block.includes("<!--")) {
+    return null;
+  }
+  try {
+    // Re-serialize so only plain JSON reaches the page, with "<" escaped
+    return JSON.stringify(JSON.parse(block)).replace(/</g, "\\u003c");
+  } catch {
+    return null;
+  }
+}
+
+// Validate the untrusted head payload sent with a capture; host is the site's
+// own, which the canonical link and og:url must point at
+export function validateCapturedHead(
+  head: unknown,
+  host: string
+): HeadValidationResult {
+  if (head === undefined || head === null) {
+    return { head: EMPTY_HEAD };
+  }
+  if (typeof head !== "object" || Array.isArray(head)) {
+    return { head: null, reason: "Head metadata must be an object" };
+  }
+
+  const {
+    meta = [],
+    canonical = null,
+    jsonLd = [],
+  } = head as Record<string, unknown>;
+  if (!Array.isArray(meta) || meta.length > MAX_META_TAGS) {
+    return { head: null, reason: "Too many or malformed meta tags" };
+  }
+  if (!Array.isArray(jsonLd) || jsonLd.length > MAX_JSON_LD_BLOCKS) {
+    return { head: null, reason: "Too many or malformed JSON-LD blocks" };
+  }
+  if (
+    canonical !== null &&
+    (typeof canonical !== "string" || !isHttpUrl(canonical, host))
+  ) {
+    return {
+      head: null,
+      reason: `Canonical link must be an http(s) URL on ${host}`,
+    };
+  }
+
+  // Later tags win, matching how head managers append their own tags
+  const metaByKey = new Map<string, CapturedMetaTag>();
+  for (const tag of meta) {
+    const result = validateMetaTag(tag, host);
+    if (typeof result === "string") {
+      return { head: null, reason: result };
+    }
+    metaByKey.delete(metaKey(result));
+    metaByKey.set(metaKey(result), result);
+  }
+
+  const blocks: string[] = [];
+  for (const block of jsonLd) {
+    const serialized = validateJsonLd(block);
+    if (serialized === null) {
+      return {
+        head: null,
+        reason: "JSON-LD must be valid JSON without </script>",
+      };
+    }
+    blocks.push(serialized);
+  }
+
+  return {
+    head: { meta: [...metaByKey.values()], canonical, jsonLd: blocks },
+  };
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+// Replace the shell's matching head tags with the captured ones
+export function applyCapturedHead(html: string, head: CapturedHead): string {
+  const headEnd = html.search(/<\/head>/i);
+  if (headEnd === -1) {
+    return html;
+  }
+
+  const capturedKeys = new Set(head.meta.map(metaKey));
+  let shellHead = html
+    .slice(0, headEnd)
+    .replace(/[ \t]*<meta\b[^>]*>\n?/gi, (tag) => {
+      const match = tag.match(/\b(name|property)\s*=\s*["']?([^"'\s>]+)/i);
+      return match &&
+        capturedKeys.has(
+          `${match[1]!.toLowerCase()}:${match[2]!.toLowerCase()}`
+        )
+        ? ""
+        : tag;
+    });
+  if (head.canonical) {
+    shellHead = shellHead.replace(
+      /[ \t]*<link\b[^>]*\brel\s*=\s*["']?canonical\b[^>]*>\n?/gi,
+      ""
+    );
+  }
+  if (head.jsonLd.length > 0) {
+    shellHead = shellHead.replace(
+      /[ \t]*<script\b[^>]*\btype\s*=\s*["']?application\/ld\+json[^>]*>[\s\S]*?<\/script>\n?/gi,
+      ""
+    );
+  }
+
+  const tags = head.meta.map((tag) =>
+    tag.property
+      ? `<meta property="${escapeAttribute(tag.property)}" content="${escapeAttribute(tag.content)}">`
+      : `<meta name="${escapeAttribute(tag.name!)}" content="${escapeAttribute(tag.content)}">`
+  );
+  if (head.canonical) {
+    tags.push(
+      `<link rel="canonical" href="${escapeAttribute(head.canonical)}">`
+    );
+  }
+  for (const block of head.jsonLd) {
+    tags.push(`<script type="application/ld+json">${block}</script>`);
+  }
+
+  return `${shellHead}${tags.join("\n")}\n${html.slice(headEnd)}`;
+}
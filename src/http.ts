@@ -0,0 +1,74 @@
+// Request header parsing the handler needs: content negotiation, entity tags
+// for conditional requests and the client address behind proxies. Pure
+// functions of their arguments, so they're tested on their own
+import { CONTENT_CODINGS, type ContentCoding } from "./disk-cache.js";
+import type { RequestIPProvider } from "./runtime.js";
+
+// Pick the coding the client prefers among the available ones, honouring
+// q-values; null means the identity body should be sent
+export function negotiateEncoding(
+  acceptEncoding: string | null,
+  available: ContentCoding[]
+): ContentCoding | null {
+  if (!acceptEncoding || available.length === 0) {
+    return null;
+  }
+
+  const qualities = new Map<string, number>();
+  for (const part of acceptEncoding.toLowerCase().split(",")) {
+    const [coding = "", ...params] = part.split(";").map((p) => p.trim());
+    const qParam = params.find((param) => param.startsWith("q="));
+    const quality = qParam ? Number(qParam.slice(2)) : 1;
+    qualities.set(
+      coding === "x-gzip" ? "gzip" : coding,
+      Number.isNaN(quality) ? 0 : quality
+    );
+  }
+
+  let best: ContentCoding | null = null;
+  let bestQuality = 0;
+  for (const coding of CONTENT_CODINGS) {
+    if (!available.includes(coding)) continue;
+    const quality = qualities.get(coding) ?? qualities.get("*") ?? 0;
+    if (quality > bestQuality) {
+      best = coding;
+      bestQuality = quality;
+    }
+  }
+  return best;
+}
+
+// Each encoding is a separate representation and needs its own validator
+export function getEncodedEtag(etag: string, coding: ContentCoding): string {
+  return `${etag.slice(0, -1)}-${coding}"`;
+}
+
+// If-None-Match uses the weak comparison, so W/ prefixes are ignored
+export function matchesEtag(ifNoneMatch: string, etag: string): boolean {
+  const opaqueTag = (tag: string) => tag.trim().replace(/^W\//, "");
+  return (
+    ifNoneMatch.trim() === "*" ||
+    ifNoneMatch.split(",").some((tag) => opaqueTag(tag) === opaqueTag(etag))
+  );
+}
+
+// Each trusted proxy appends the address it received the request from, so
+// the entry trustedProxyHops from the right is the one the outermost proxy
+// saw. Anything left of it was sent by the client and can't be trusted.
+// Without trustedProxyHops, X-Forwarded-For is ignored
+export function getClientIp(
+  request: Request,
+  server?: RequestIPProvider,
+  trustedProxyHops?: number
+): string {
+  if (trustedProxyHops) {
+    const forwarded = (request.headers.get("X-Forwarded-For") || "")
+      .split(",")
+      .map((entry) => entry.trim());
+    const client = forwarded[forwarded.length - trustedProxyHops];
+    if (client) {
+      return client;
+    }
+  }
+  return server?.requestIP(request)?.address || "unknown";
+}
@@ -80,6 +80,67 @@
     }
   }
 
+  // Collect the per-page head tags set by the SPA (e.g. through react-helmet).
+  // The server validates them and swaps them into the cached document.
+  function getHeadMetadata() {
+    const meta: { name?: string; property?: string; content: string }[] = [];
+    document
+      .querySelectorAll(
+        'meta[name="description"], meta[name="robots"], meta[property^="og:"], meta[name^="twitter:"], meta[property^="twitter:"]'
+      )
+      .forEach((el) => {
+        const content = el.getAttribute("content");
+        if (content === null) return;
+        const property = el.getAttribute("property");
+        meta.push(
+          property
+            ? { property, content }
+            : { name: el.getAttribute("name")!, content }
+        );
+      });
+
+    const canonical = document.querySelector('link[rel="canonical"]');
+    const jsonLd = Array.from(
+      document.querySelectorAll('script[type="application/ld+json"]')
+    ).map((script) => script.textContent || "");
+
+    return {
+      meta,
+      canonical: canonical ? canonical.getAttribute("href") : null,
+      jsonLd,
+    };
+  }
+
+  // HTTP status declared through window.Sterad.setStatus()/redirect(), or the
+  // prerender-status-code / prerender-header meta tag convention
+  function getDeclaredStatus() {
+    // @ts-ignore
+    const sterad = window.Sterad || {};
+    let status: number | null = sterad._status || null;
+    let location: string | null = sterad._location || null;
+
+    const statusMeta = document.querySelector(
+      'meta[name="prerender-status-code"]'
+    );
+    if (!status && statusMeta) {
+      status = parseInt(statusMeta.getAttribute("content") || "", 10) || null;
+    }
+    // e.g. <meta name="prerender-header" content="Location: /new-path">
+    const headerMeta = document.querySelector('meta[name="prerender-header"]');
+    const header = headerMeta ? headerMeta.getAttribute("content") || "" : "";
+    if (!location && header.toLowerCase().startsWith("location:")) {
+      location = header.slice("location:".length).trim();
+    }
+
+    return { status, location };
+  }
+
+  // Short-lived token the server issued for the path it served
+  function getCaptureToken() {
+    const meta = document.querySelector('meta[name="sterad-capture-token"]');
+    return meta ? meta.getAttribute("content") : null;
+  }
+
   function captureAndSend(isManual = false) {
     try {
       const contentToCache = getMainContent();
@@ -87,6 +148,8 @@
         return Promise.reject(new Error("No content to cache"));
       }
 
+      const declared = getDeclaredStatus();
+
       return fetch("/__sterad_capture", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -95,6 +158,10 @@
           title: contentToCache.title,
           content: contentToCache.content,
           manual: isManual,
+          head: getHeadMetadata(),
+          status: declared.status,
+          location: declared.location,
+          token: getCaptureToken(),
         }),
         credentials: "same-origin", // Send cookies if on the same origin
       })
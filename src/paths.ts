@@ -0,0 +1,107 @@
+// Path validation shared by everything that turns a request path or a cache
+// key into a file path: static assets, the disk cache and the CLI
+import { resolve, relative } from "path";
+
+// decodeURI for a request path, or null when its percent-encoding is
+// malformed (e.g. "/%E0%A4%A"), so callers can answer 400 instead of failing
+export function decodePath(path: string): string | null {
+  try {
+    return decodeURI(path);
+  } catch (error) {
+    if (error instanceof URIError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export function sanitizePath(inputPath: string): string {
+  if (!inputPath || typeof inputPath !== "string") {
+    return "/";
+  }
+
+  // URL decode the path to handle encoded traversal attempts (including double encoding)
+  let cleanPath = inputPath;
+  let previousPath = "";
+  let iterations = 0;
+  const maxIterations = 3; // Prevent infinite loops
+
+  // Keep decoding until no more changes or max iterations reached
+  while (cleanPath !== previousPath && iterations < maxIterations) {
+    previousPath = cleanPath;
+    try {
+      cleanPath = decodeURIComponent(cleanPath);
+      iterations++;
+    } catch (error) {
+      // If decoding fails, stop and use current path
+      console.warn(`Sterad Security: URL decode failed for path: ${cleanPath}`);
+      break;
+    }
+  }
+
+  // Remove null bytes and other dangerous characters
+  cleanPath = cleanPath.replace(/\0/g, "");
+
+  // Normalize path separators to forward slashes
+  cleanPath = cleanPath.replace(/\\/g, "/");
+
+  // Remove multiple consecutive slashes
+  cleanPath = cleanPath.replace(/\/+/g, "/");
+
+  // Ensure path starts with /
+  if (!cleanPath.startsWith("/")) {
+    cleanPath = "/" + cleanPath;
+  }
+
+  // Remove trailing slash unless it's the root
+  if (cleanPath.length > 1 && cleanPath.endsWith("/")) {
+    cleanPath = cleanPath.slice(0, -1);
+  }
+
+  return cleanPath;
+}
+
+export function isPathSafe(
+  requestedPath: string,
+  allowedBasePath: string
+): boolean {
+  try {
+    // Sanitize the input path
+    const cleanPath = sanitizePath(requestedPath);
+
+    // Block any path containing .. sequences (even after sanitization)
+    if (cleanPath.includes("..")) {
+      console.warn(
+        `Sterad Security: Blocked path with .. sequence: ${requestedPath}`
+      );
+      return false;
+    }
+
+    // Remove leading slash for join operation
+    const relativePath = cleanPath.startsWith("/")
+      ? cleanPath.slice(1)
+      : cleanPath;
+
+    // Resolve the full path
+    const fullPath = resolve(allowedBasePath, relativePath);
+
+    // Check if the resolved path is within the allowed base path
+    const relativeToBased = relative(allowedBasePath, fullPath);
+
+    // Path is safe if:
+    // 1. It doesn't start with .. (not going up directories)
+    // 2. It doesn't contain .. anywhere (no directory traversal)
+    // 3. It's not an absolute path outside our base
+    return (
+      !relativeToBased.startsWith("..") &&
+      !relativeToBased.includes("..") &&
+      !resolve(fullPath).startsWith("..")
+    );
+  } catch (error) {
+    console.warn(
+      `Sterad Security: Path validation error for ${requestedPath}:`,
+      error
+    );
+    return false;
+  }
+}
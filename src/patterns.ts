@@ -0,0 +1,77 @@
+// Route glob matching with ReDoS protection
+
+// ReDoS mitigation: Safe regex wrapper with timeout
+export function createSafeRegex(
+  pattern: string,
+  flags?: string,
+  timeoutMs: number = 100
+): RegExp {
+  const regex = new RegExp(pattern, flags);
+
+  // Store original test method
+  const originalTest = regex.test.bind(regex);
+  const originalExec = regex.exec.bind(regex);
+
+  // Override test method with timeoutViolations
+  regex.test = function (str: string): boolean {
+    return executeWithTimeout(() => originalTest(str), timeoutMs, false);
+  };
+
+  // Override exec method with timeout
+  regex.exec = function (str: string): RegExpExecArray | null {
+    return executeWithTimeout(() => originalExec(str), timeoutMs, null);
+  };
+
+  return regex;
+}
+
+// Execute function with timeout to prevent ReDoS
+function executeWithTimeout<T>(
+  fn: () => T,
+  timeoutMs: number,
+  defaultValue: T
+): T {
+  const start = Date.now();
+  let result: T;
+
+  try {
+    result = fn();
+
+    // Check if execution took too long (simple timeout check)
+    if (Date.now() - start > timeoutMs) {
+      console.warn(
+        `Sterad Security: Regex execution timeout (${
+          Date.now() - start
+        }ms > ${timeoutMs}ms)`
+      );
+      return defaultValue;
+    }
+
+    return result;
+  } catch (error) {
+    console.warn(`Sterad Security: Regex execution error: ${error}`);
+    return defaultValue;
+  }
+}
+
+// Glob syntax shared by cache_routes, the route tables and purge patterns
+export function compileCachePatterns(patterns: string[]): RegExp {
+  if (patterns.length === 0) {
+    return createSafeRegex("^$^");
+  }
+  const regexParts = patterns.map((pattern) => {
+    // Handle exact matches (paths without wildcards)
+    if (!pattern.includes("*") && !pattern.includes("?")) {
+      return `^${pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}$`;
+    }
+    // Escape special regex characters except * and ?
+    let regexStr = pattern
+      .replace(/[.+${}()|[\]\\]/g, "\\$&")
+      .replace(/\*/g, ".*") // Convert * to .*
+      .replace(/\?/g, "."); // Convert ? to .
+    if (!regexStr.startsWith("^")) regexStr = "^" + regexStr;
+    if (!regexStr.endsWith("$")) regexStr = regexStr + "$";
+    return regexStr;
+  });
+  return createSafeRegex(regexParts.join("|"), "i");
+}
@@ -0,0 +1,56 @@
+// Runtime backed by Bun's native file, TOML, subprocess and server APIs
+import type { Runtime } from "./runtime.js";
+
+export const bunRuntime: Runtime = {
+  name: "bun",
+
+  async stat(path) {
+    const file = Bun.file(path);
+    if (!(await file.exists())) {
+      return null;
+    }
+    return { size: file.size, lastModified: file.lastModified };
+  },
+
+  readText(path) {
+    return Bun.file(path).text();
+  },
+
+  async readBytes(path) {
+    return new Uint8Array(await Bun.file(path).arrayBuffer());
+  },
+
+  async writeFile(path, data) {
+    await Bun.write(path, data);
+  },
+
+  streamFile(path) {
+    return Bun.file(path);
+  },
+
+  parseToml(source) {
+    return Bun.TOML.parse(source);
+  },
+
+  runScript(scriptPath, input) {
+    const proc = Bun.spawn(["bun", "run", scriptPath], {
+      stdin: "pipe",
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+    proc.stdin.write(input);
+    proc.stdin.end();
+
+    return {
+      exited: proc.exited,
+      stdout: new Response(proc.stdout).text(),
+      stderr: new Response(proc.stderr).text(),
+      kill: () => proc.kill(),
+    };
+  },
+
+  serve({ port, fetch }) {
+    const server = Bun.serve({ port, fetch });
+    return { stop: () => server.stop() };
+  },
+};
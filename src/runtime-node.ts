@@ -0,0 +1,203 @@
+// Runtime for Node 18.17+, built on node:fs, node:child_process, node:http and
+// smol-toml. Requests and responses are converted to and from the Fetch API
+// types the handler works with
+import { spawn } from "child_process";
+import { open, readFile, stat, writeFile, type FileHandle } from "fs/promises";
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import { once } from "events";
+import type { Readable } from "stream";
+import { parse as parseToml } from "smol-toml";
+import type { Runtime } from "./runtime.js";
+
+// Same as Bun.serve's default maxRequestBodySize
+const MAX_REQUEST_BODY_BYTES = 128 * 1024 * 1024;
+const FILE_CHUNK_BYTES = 64 * 1024;
+
+function collectOutput(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+  return new Promise((resolve) => {
+    stream.on("close", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+  });
+}
+
+// Returns null when the body is over MAX_REQUEST_BODY_BYTES
+async function toRequest(incoming: IncomingMessage): Promise<Request | null> {
+  const url = new URL(
+    incoming.url || "/",
+    `http://${incoming.headers.host || "localhost"}`
+  );
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(incoming.headers)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item !== undefined) {
+        headers.append(name, item);
+      }
+    }
+  }
+
+  const method = incoming.method || "GET";
+  if (method === "GET" || method === "HEAD") {
+    return new Request(url, { method, headers });
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of incoming) {
+    size += chunk.length;
+    if (size > MAX_REQUEST_BODY_BYTES) {
+      return null;
+    }
+    chunks.push(chunk);
+  }
+  return new Request(url, { method, headers, body: Buffer.concat(chunks) });
+}
+
+async function sendResponse(
+  outgoing: ServerResponse,
+  response: Response,
+  method: string
+): Promise<void> {
+  outgoing.statusCode = response.status;
+  response.headers.forEach((value, name) => {
+    outgoing.setHeader(name, value);
+  });
+  if (!response.body || method === "HEAD") {
+    outgoing.end();
+    return;
+  }
+
+  const reader = response.body.getReader();
+  // A client that disconnects mid-body never drains the socket. Stop copying
+  // and cancel the body, which closes the file handle of a streamed file
+  const closed = new Promise<void>((resolve) => {
+    outgoing.once("close", () => {
+      if (!outgoing.writableFinished) {
+        reader.cancel().catch(() => {});
+      }
+      resolve();
+    });
+  });
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done || outgoing.destroyed) break;
+    if (!outgoing.write(value)) {
+      await Promise.race([once(outgoing, "drain"), closed]);
+    }
+  }
+  outgoing.end();
+}
+
+export const nodeRuntime: Runtime = {
+  name: "node",
+
+  async stat(path) {
+    try {
+      const stats = await stat(path);
+      return stats.isFile()
+        ? { size: stats.size, lastModified: Math.floor(stats.mtimeMs) }
+        : null;
+    } catch {
+      return null;
+    }
+  },
+
+  readText(path) {
+    return readFile(path, "utf-8");
+  },
+
+  async readBytes(path) {
+    return new Uint8Array(await readFile(path));
+  },
+
+  writeFile(path, data) {
+    return writeFile(path, data);
+  },
+
+  // The file is only opened once the body is read, so responses that are
+  // never sent (such as a 304) don't hold a file descriptor
+  streamFile(path) {
+    let handle: FileHandle | undefined;
+    return new ReadableStream<Uint8Array>(
+      {
+        async pull(controller) {
+          try {
+            handle ??= await open(path);
+            const chunk = new Uint8Array(FILE_CHUNK_BYTES);
+            const { bytesRead } = await handle.read(chunk, 0, chunk.length);
+            if (bytesRead === 0) {
+              await handle.close();
+              controller.close();
+            } else {
+              controller.enqueue(chunk.subarray(0, bytesRead));
+            }
+          } catch (error) {
+            await handle?.close();
+            controller.error(error);
+          }
+        },
+        async cancel() {
+          await handle?.close();
+        },
+      },
+      { highWaterMark: 0 }
+    );
+  },
+
+  parseToml,
+
+  runScript(scriptPath, input) {
+    const child = spawn(process.execPath, [scriptPath], {
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    const exited = new Promise<number | null>((resolve) => {
+      child.on("close", (code) => resolve(code));
+      // A process that fails to start counts as failed
+      child.on("error", () => resolve(null));
+    });
+    child.stdin.on("error", () => {});
+    child.stdin.end(input);
+
+    return {
+      exited,
+      stdout: collectOutput(child.stdout),
+      stderr: collectOutput(child.stderr),
+      kill: () => child.kill(),
+    };
+  },
+
+  serve({ port, fetch }) {
+    const server = createServer(async (incoming, outgoing) => {
+      const method = incoming.method || "GET";
+      try {
+        const request = await toRequest(incoming);
+        if (!request) {
+          outgoing.writeHead(413).end("Payload Too Large");
+          return;
+        }
+        const response = await fetch(request, {
+          requestIP: () =>
+            incoming.socket.remoteAddress
+              ? { address: incoming.socket.remoteAddress }
+              : null,
+        });
+        await sendResponse(outgoing, response, method);
+      } catch (error) {
+        console.error("Sterad Server Runtime Error:", error);
+        if (!outgoing.headersSent) {
+          outgoing.writeHead(400);
+        }
+        outgoing.end();
+      }
+    });
+    server.listen(port);
+
+    return {
+      stop: () =>
+        new Promise<void>((resolve) => {
+          server.close(() => resolve());
+          server.closeAllConnections();
+        }),
+    };
+  },
+};
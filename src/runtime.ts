@@ -0,0 +1,51 @@
+// The parts of the JavaScript runtime that Bun and Node provide differently:
+// reading and writing snapshot and asset files, TOML, subprocesses and the
+// HTTP server. Directory operations (readdir, rename, rm, stat, utimes, watch)
+// use node:fs directly, which both runtimes implement alike.
+import { bunRuntime } from "./runtime-bun.js";
+import { nodeRuntime } from "./runtime-node.js";
+
+export interface FileStat {
+  size: number; // Bytes
+  lastModified: number; // ms
+}
+
+export interface RuntimeProcess {
+  exited: Promise<number | null>; // Resolves to the exit code
+  stdout: Promise<string>;
+  stderr: Promise<string>;
+  kill(): void;
+}
+
+// Anything that can report the client address of a request, such as Bun's
+// Server. Without one, client IPs come from X-Forwarded-For (with
+// trust_proxy) or are "unknown"
+export interface RequestIPProvider {
+  requestIP(request: Request): { address: string } | null;
+}
+
+export interface ServeOptions {
+  port: number;
+  fetch(request: Request, server: RequestIPProvider): Promise<Response>;
+}
+
+export interface RuntimeServer {
+  stop(): Promise<void>;
+}
+
+export interface Runtime {
+  name: "bun" | "node";
+  stat(path: string): Promise<FileStat | null>; // null unless it's a file
+  readText(path: string): Promise<string>;
+  readBytes(path: string): Promise<Uint8Array<ArrayBuffer>>;
+  writeFile(path: string, data: string | Uint8Array): Promise<void>;
+  streamFile(path: string): BodyInit; // Response body read from disk as it's sent
+  parseToml(source: string): unknown;
+  runScript(scriptPath: string, input: string): RuntimeProcess; // stdin is closed after input
+  serve(options: ServeOptions): RuntimeServer;
+}
+
+// The runtime this process is running on
+export function detectRuntime(): Runtime {
+  return typeof Bun !== "undefined" ? bunRuntime : nodeRuntime;
+}
@@ -0,0 +1,808 @@
+// HTML fragment parser and sanitizer for captured content.
+// Tokenizes the fragment, rebuilds the element tree the way a browser would
+// (void elements, optional end tags, implicit closing), and serializes only
+// allowlisted tags, attributes and URLs. One pass yields both the sanitized
+// HTML and every policy violation found along the way.
+
+export interface SanitizerPolicy {
+  allowedTags: string[];
+  // Allowed attributes per tag; "*" applies to every tag.
+  // Entries ending in "*" (e.g. "data-*") allow the whole family
+  allowedAttributes: Record<string, string[]>;
+  allowedUrlSchemes: string[]; // Without the trailing colon, e.g. "https"
+  allowStyleAttributes: boolean;
+  allowedCssProperties: string[]; // Same wildcard syntax as attributes
+}
+
+export interface HtmlViolation {
+  category:
+    | "disallowed_tag"
+    | "disallowed_attribute"
+    | "html_structure"
+    | "security_pattern";
+  reason: string;
+}
+
+export interface ParsedFragment {
+  html: string; // Sanitized, well-formed serialization
+  violations: HtmlViolation[];
+  tagCount: number;
+  tagLength: number; // Characters of markup in the original content
+  textLength: number; // Characters of trimmed text in the original content
+}
+
+export const DEFAULT_ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  "*": [
+    "id",
+    "class",
+    "title",
+    "lang",
+    "dir",
+    "role",
+    "tabindex",
+    "hidden",
+    "data-*",
+    "aria-*",
+  ],
+  a: ["href", "target", "rel", "name"],
+  img: ["src", "srcset", "sizes", "alt", "width", "height", "loading"],
+  ol: ["start", "reversed", "type"],
+  li: ["value"],
+  td: ["colspan", "rowspan", "headers"],
+  th: ["colspan", "rowspan", "headers", "scope"],
+  form: ["action", "method"],
+  input: [
+    "type",
+    "name",
+    "value",
+    "placeholder",
+    "checked",
+    "disabled",
+    "readonly",
+    "required",
+    "min",
+    "max",
+    "step",
+    "maxlength",
+  ],
+  button: ["type", "name", "value", "disabled"],
+  label: ["for"],
+  select: ["name", "multiple", "disabled", "required"],
+  option: ["value", "selected", "disabled"],
+  textarea: ["name", "rows", "cols", "placeholder", "disabled", "readonly"],
+};
+
+export const DEFAULT_ALLOWED_URL_SCHEMES = ["http", "https", "mailto", "tel"];
+
+export const DEFAULT_ALLOWED_CSS_PROPERTIES = [
+  "color",
+  "background-color",
+  "font-family",
+  "font-size",
+  "font-style",
+  "font-weight",
+  "text-align",
+  "text-decoration",
+  "text-transform",
+  "line-height",
+  "letter-spacing",
+  "white-space",
+  "vertical-align",
+  "list-style-type",
+  "display",
+  "width",
+  "height",
+  "min-width",
+  "max-width",
+  "min-height",
+  "max-height",
+  "margin",
+  "margin-*",
+  "padding",
+  "padding-*",
+  "border",
+  "border-*",
+  "opacity",
+];
+
+// Data URLs are only accepted for images, and only in image sources
+const SAFE_DATA_URL = /^data:image\/(?:png|gif|jpe?g|webp|avif|bmp)[;,]/i;
+
+// CSS values able to load resources or run code
+const UNSAFE_CSS_VALUE =
+  /url\s*\(|expression\s*\(|javascript:|vbscript:|@import|behavior\s*:|-moz-binding|\\|\/\*/i;
+
+// Fragments nested deeper than this are rejected without parsing further.
+// Browsers stop nesting at a similar depth, and it bounds the work scope
+// lookups do on hostile input
+export const MAX_NESTING_DEPTH = 256;
+
+const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "param",
+  "source",
+  "track",
+  "wbr",
+]);
+
+// Elements whose content is not parsed as markup
+const RAW_TEXT_ELEMENTS = new Set([
+  "script",
+  "style",
+  "textarea",
+  "title",
+  "xmp",
+  "iframe",
+  "noembed",
+  "noframes",
+  "noscript",
+  "plaintext",
+]);
+
+// Never allowed, regardless of allowed_tags; dropped together with their content
+const FORBIDDEN_ELEMENTS: Record<string, string> = {
+  script: "Script tags not allowed",
+  style: "Style tags not allowed",
+  iframe: "Iframe tags not allowed",
+  frame: "Frame tags not allowed",
+  frameset: "Frame tags not allowed",
+  object: "Object tags not allowed",
+  embed: "Embed tags not allowed",
+  applet: "Applet tags not allowed",
+  base: "Base tags not allowed",
+  link: "Link tags not allowed",
+  meta: "Meta tags not allowed",
+  template: "Template tags not allowed",
+  noscript: "Noscript tags not allowed",
+  svg: "SVG content not allowed",
+  math: "MathML content not allowed",
+};
+
+// Elements whose end tag may be omitted, so closing them implicitly is valid
+const OPTIONAL_END_TAGS = new Set([
+  "p",
+  "li",
+  "dt",
+  "dd",
+  "option",
+  "optgroup",
+  "tr",
+  "td",
+  "th",
+  "thead",
+  "tbody",
+  "tfoot",
+  "colgroup",
+  "rb",
+  "rt",
+  "rtc",
+  "rp",
+]);
+
+// Opening one of these closes an open <p>
+const P_CLOSING_ELEMENTS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "center",
+  "details",
+  "dialog",
+  "dir",
+  "div",
+  "dl",
+  "fieldset",
+  "figcaption",
+  "figure",
+  "footer",
+  "form",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hgroup",
+  "hr",
+  "main",
+  "menu",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "summary",
+  "table",
+  "ul",
+  "li",
+  "dd",
+  "dt",
+]);
+
+const SCOPE_BOUNDARIES = new Set([
+  "applet",
+  "caption",
+  "html",
+  "table",
+  "td",
+  "th",
+  "marquee",
+  "object",
+  "template",
+  "button",
+]);
+
+// Attributes holding a URL (srcset holds a list of them)
+const URL_ATTRIBUTES = new Set([
+  "href",
+  "src",
+  "srcset",
+  "action",
+  "formaction",
+  "poster",
+  "cite",
+  "background",
+  "xlink:href",
+  "data",
+]);
+
+// Named character references worth decoding before URL checks; the
+// mixed-case ones are common obfuscation tricks (java&Tab;script:)
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+  colon: ":",
+  semi: ";",
+  comma: ",",
+  period: ".",
+  sol: "/",
+  bsol: "\\",
+  lpar: "(",
+  rpar: ")",
+  equals: "=",
+  excl: "!",
+  num: "#",
+  percnt: "%",
+  quest: "?",
+  tab: "\t",
+  newline: "\n",
+};
+
+// References that browsers decode even without a trailing semicolon
+const LEGACY_ENTITIES = new Set(["amp", "lt", "gt", "quot", "nbsp"]);
+
+export function decodeEntities(value: string): string {
+  return value.replace(
+    /&(#x[0-9a-f]+|#[0-9]+|[a-z][a-z0-9]*)(;?)/gi,
+    (match, ref: string, semicolon: string, offset: number) => {
+      if (ref.startsWith("#")) {
+        const codePoint =
+          ref[1] === "x" || ref[1] === "X"
+            ? parseInt(ref.slice(2), 16)
+            : parseInt(ref.slice(1), 10);
+        return codePoint > 0 && codePoint <= 0x10ffff
+          ? String.fromCodePoint(codePoint)
+          : "\ufffd";
+      }
+      const name = ref.toLowerCase();
+      if (!(name in NAMED_ENTITIES)) return match;
+      if (!semicolon) {
+        // Legacy references are not decoded when followed by "=" or an alphanumeric
+        const next = value[offset + match.length] || "";
+        if (!LEGACY_ENTITIES.has(name) || /[=a-z0-9]/i.test(next)) {
+          return match;
+        }
+      }
+      return NAMED_ENTITIES[name];
+    }
+  );
+}
+
+// Returns the lowercased scheme of a URL, or null for relative URLs
+export function getUrlScheme(url: string): string | null {
+  // Browsers ignore control characters and whitespace inside URLs
+  const normalized = decodeEntities(url).replace(/[\u0000- ]/g, "");
+  const match = /^([a-z][a-z0-9+.\-]*):/i.exec(normalized);
+  return match ? match[1].toLowerCase() : null;
+}
+
+function escapeText(text: string): string {
+  return text.replace(/</g, "&lt;");
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+}
+
+type Token =
+  | { type: "text"; text: string }
+  | { type: "comment"; raw: string }
+  | {
+      type: "start";
+      name: string;
+      attributes: [string, string | null][];
+      raw: string;
+    }
+  | { type: "end"; name: string; raw: string };
+
+const isWhitespace = (char: string) =>
+  char === " " ||
+  char === "\t" ||
+  char === "\n" ||
+  char === "\r" ||
+  char === "\f";
+
+const isAsciiLetter = (char: string | undefined) =>
+  !!char && ((char >= "a" && char <= "z") || (char >= "A" && char <= "Z"));
+
+function tokenize(content: string): Token[] {
+  const tokens: Token[] = [];
+  const length = content.length;
+  let pos = 0;
+  let textStart = 0;
+
+  const flushText = (end: number) => {
+    if (end > textStart) {
+      tokens.push({ type: "text", text: content.slice(textStart, end) });
+    }
+  };
+
+  while (pos < length) {
+    if (content[pos] !== "<") {
+      pos++;
+      continue;
+    }
+
+    const next = content[pos + 1];
+
+    // Comments, doctypes and processing instructions
+    if (next === "!" || next === "?") {
+      flushText(pos);
+      let end: number;
+      if (content.startsWith("<!--", pos)) {
+        end = content.indexOf("-->", pos + 4);
+        end = end === -1 ? length : end + 3;
+      } else {
+        end = content.indexOf(">", pos + 2);
+        end = end === -1 ? length : end + 1;
+      }
+      tokens.push({ type: "comment", raw: content.slice(pos, end) });
+      pos = textStart = end;
+      continue;
+    }
+
+    // End tags
+    if (next === "/" && isAsciiLetter(content[pos + 2])) {
+      flushText(pos);
+      let nameEnd = pos + 2;
+      while (
+        nameEnd < length &&
+        !isWhitespace(content[nameEnd]) &&
+        content[nameEnd] !== "/" &&
+        content[nameEnd] !== ">"
+      ) {
+        nameEnd++;
+      }
+      let end = content.indexOf(">", nameEnd);
+      end = end === -1 ? length : end + 1;
+      tokens.push({
+        type: "end",
+        name: content.slice(pos + 2, nameEnd).toLowerCase(),
+        raw: content.slice(pos, end),
+      });
+      pos = textStart = end;
+      continue;
+    }
+
+    // A "<" that does not open a tag is plain text
+    if (!isAsciiLetter(next)) {
+      pos++;
+      continue;
+    }
+
+    // Start tags
+    flushText(pos);
+    const tagStart = pos;
+    pos++;
+    while (
+      pos < length &&
+      !isWhitespace(content[pos]) &&
+      content[pos] !== "/" &&
+      content[pos] !== ">"
+    ) {
+      pos++;
+    }
+    const name = content.slice(tagStart + 1, pos).toLowerCase();
+    const attributes: [string, string | null][] = [];
+    const attributeNames = new Set<string>();
+
+    while (pos < length && content[pos] !== ">") {
+      const char = content[pos];
+      if (isWhitespace(char) || char === "/") {
+        pos++;
+        continue;
+      }
+
+      const attrStart = pos;
+      pos++; // The first character may be "=", as browsers allow
+      while (
+        pos < length &&
+        !isWhitespace(content[pos]) &&
+        content[pos] !== "/" &&
+        content[pos] !== ">" &&
+        content[pos] !== "="
+      ) {
+        pos++;
+      }
+      const attrName = content.slice(attrStart, pos).toLowerCase();
+      while (pos < length && isWhitespace(content[pos])) pos++;
+
+      let value: string | null = null;
+      if (content[pos] === "=") {
+        pos++;
+        while (pos < length && isWhitespace(content[pos])) pos++;
+        const quote = content[pos];
+        if (quote === '"' || quote === "'") {
+          let valueEnd = content.indexOf(quote, pos + 1);
+          if (valueEnd === -1) valueEnd = length;
+          value = content.slice(pos + 1, valueEnd);
+          pos = valueEnd + 1;
+        } else {
+          const valueStart = pos;
+          while (
+            pos < length &&
+            !isWhitespace(content[pos]) &&
+            content[pos] !== ">"
+          ) {
+            pos++;
+          }
+          value = content.slice(valueStart, pos);
+        }
+      }
+
+      // Duplicate attributes: the first one wins, as in browsers
+      if (!attributeNames.has(attrName)) {
+        attributeNames.add(attrName);
+        attributes.push([
+          attrName,
+          value === null ? null : decodeEntities(value),
+        ]);
+      }
+    }
+
+    pos = Math.min(pos + 1, length);
+    tokens.push({
+      type: "start",
+      name,
+      attributes,
+      raw: content.slice(tagStart, pos),
+    });
+    textStart = pos;
+
+    // Raw text elements run until their matching end tag
+    if (RAW_TEXT_ELEMENTS.has(name)) {
+      const closePattern = new RegExp(`</${name}[\\s/>]`, "ig");
+      closePattern.lastIndex = pos;
+      const closeMatch =
+        name === "plaintext" ? null : closePattern.exec(content);
+      const rawEnd = closeMatch ? closeMatch.index : length;
+      flushText(rawEnd);
+      pos = textStart = rawEnd;
+    }
+  }
+
+  flushText(length);
+  return tokens;
+}
+
+// Exact names, or "prefix*" entries matching a family of plain names
+function matchesAllowlist(name: string, allowlist: string[]): boolean {
+  if (allowlist.includes(name)) return true;
+  if (!/^[a-z][a-z0-9_.:\-]*$/.test(name)) return false;
+  return allowlist.some(
+    (entry) => entry.endsWith("*") && name.startsWith(entry.slice(0, -1))
+  );
+}
+
+function isAttributeAllowed(
+  tagName: string,
+  attrName: string,
+  policy: SanitizerPolicy
+): boolean {
+  return matchesAllowlist(attrName, [
+    ...(policy.allowedAttributes["*"] || []),
+    ...(policy.allowedAttributes[tagName] || []),
+  ]);
+}
+
+// Keep allowlisted CSS declarations; null when a value is unsafe
+function sanitizeStyle(value: string, policy: SanitizerPolicy): string | null {
+  const declarations: string[] = [];
+  for (const declaration of value.split(";")) {
+    const colon = declaration.indexOf(":");
+    if (colon === -1) continue;
+    const property = declaration.slice(0, colon).trim().toLowerCase();
+    const propertyValue = declaration.slice(colon + 1).trim();
+    if (UNSAFE_CSS_VALUE.test(propertyValue)) return null;
+    if (matchesAllowlist(property, policy.allowedCssProperties)) {
+      declarations.push(`${property}: ${propertyValue}`);
+    }
+  }
+  return declarations.join("; ");
+}
+
+// Returns the disallowed scheme used by a URL attribute, if any
+function findDisallowedScheme(
+  attrName: string,
+  value: string,
+  policy: SanitizerPolicy
+): string | null {
+  const urls =
+    attrName === "srcset"
+      ? value.split(",").map((candidate) => candidate.trim().split(/\s+/)[0])
+      : [value];
+
+  for (const url of urls) {
+    const scheme = getUrlScheme(url);
+    if (!scheme) continue;
+    if (!policy.allowedUrlSchemes.includes(scheme)) return scheme;
+    if (
+      scheme === "data" &&
+      (!(attrName === "src" || attrName === "srcset") ||
+        !SAFE_DATA_URL.test(decodeEntities(url).trim()))
+    ) {
+      return scheme;
+    }
+  }
+  return null;
+}
+
+export function parseHtmlFragment(
+  content: string,
+  policy: SanitizerPolicy
+): ParsedFragment {
+  const tokens = tokenize(content);
+  const allowedTags = new Set(policy.allowedTags);
+  const violations: HtmlViolation[] = [];
+  const output: string[] = [];
+  let tagCount = 0;
+  let tagLength = 0;
+  let text = "";
+
+  // Open elements; "emit" is false for disallowed tags whose content is kept,
+  // "drop" is true for forbidden elements whose whole subtree is removed.
+  // Open counts per tag name and the number of open dropping elements keep
+  // lookups from scanning the stack for every token
+  const stack: { name: string; emit: boolean; drop: boolean }[] = [];
+  const openCounts = new Map<string, number>();
+  let dropDepth = 0;
+  const isDropping = () => dropDepth > 0;
+  const isOpen = (name: string) => (openCounts.get(name) || 0) > 0;
+
+  const pushElement = (element: (typeof stack)[number]) => {
+    stack.push(element);
+    openCounts.set(element.name, (openCounts.get(element.name) || 0) + 1);
+    if (element.drop) dropDepth++;
+  };
+
+  const popElement = (expected?: string) => {
+    const element = stack.pop()!;
+    openCounts.set(element.name, openCounts.get(element.name)! - 1);
+    if (element.drop) dropDepth--;
+    if (expected !== undefined && !OPTIONAL_END_TAGS.has(element.name)) {
+      violations.push({
+        category: "html_structure",
+        reason: `Mismatched HTML tags: expected </${element.name}>, found </${expected}>`,
+      });
+    }
+    if (element.emit) output.push(`</${element.name}>`);
+  };
+
+  // Index of the nearest open element named in `names`, stopping at boundaries
+  const findInScope = (names: string[], boundaries: Set<string>) => {
+    if (!names.some(isOpen)) return -1;
+    for (let i = stack.length - 1; i >= 0; i--) {
+      if (names.includes(stack[i].name)) return i;
+      if (boundaries.has(stack[i].name)) return -1;
+    }
+    return -1;
+  };
+
+  const closeTo = (index: number, trigger: string) => {
+    while (stack.length > index) popElement(trigger);
+  };
+
+  // Implicitly close elements the way browsers do when `name` opens
+  const closeImplied = (name: string) => {
+    if (P_CLOSING_ELEMENTS.has(name)) {
+      const index = findInScope(["p"], SCOPE_BOUNDARIES);
+      if (index !== -1) closeTo(index, name);
+    }
+    if (name === "li") {
+      const index = findInScope(
+        ["li"],
+        new Set([...SCOPE_BOUNDARIES, "ul", "ol"])
+      );
+      if (index !== -1) closeTo(index, name);
+    } else if (name === "dd" || name === "dt") {
+      const index = findInScope(
+        ["dd", "dt"],
+        new Set([...SCOPE_BOUNDARIES, "dl"])
+      );
+      if (index !== -1) closeTo(index, name);
+    } else if (name === "option" || name === "optgroup") {
+      const closing = name === "option" ? ["option"] : ["option", "optgroup"];
+      while (stack.length && closing.includes(stack[stack.length - 1].name)) {
+        popElement();
+      }
+    } else if (name === "td" || name === "th") {
+      const index = findInScope(["td", "th"], new Set(["table", "tr"]));
+      if (index !== -1) closeTo(index, name);
+    } else if (name === "tr") {
+      const index = findInScope(["tr"], new Set(["table"]));
+      if (index !== -1) closeTo(index, name);
+    } else if (name === "thead" || name === "tbody" || name === "tfoot") {
+      const index = findInScope(
+        ["thead", "tbody", "tfoot"],
+        new Set(["table"])
+      );
+      if (index !== -1) closeTo(index, name);
+    }
+  };
+
+  for (const token of tokens) {
+    if (token.type === "comment") {
+      // Comments are dropped from the output
+      tagLength += token.raw.length;
+      continue;
+    }
+
+    if (token.type === "text") {
+      text += token.text;
+      if (!isDropping()) output.push(escapeText(token.text));
+      continue;
+    }
+
+    tagCount++;
+    tagLength += token.raw.length;
+
+    if (token.type === "end") {
+      let index = -1;
+      if (isOpen(token.name)) {
+        index = stack.length - 1;
+        while (stack[index].name !== token.name) index--;
+      }
+      if (index === -1) {
+        // Browsers read a stray </br> as <br>
+        if (token.name === "br" && !isDropping() && allowedTags.has("br")) {
+          output.push("<br>");
+        }
+        // </br> and </p> without an open element are common; others are not
+        if (!VOID_ELEMENTS.has(token.name) && token.name !== "p") {
+          violations.push({
+            category: "html_structure",
+            reason: `Unexpected closing tag: </${token.name}>`,
+          });
+        }
+        continue;
+      }
+      closeTo(index + 1, token.name);
+      popElement();
+      continue;
+    }
+
+    const { name } = token;
+    closeImplied(name);
+
+    const forbidden = FORBIDDEN_ELEMENTS[name];
+    const dropping = isDropping();
+    if (forbidden) {
+      violations.push({ category: "security_pattern", reason: forbidden });
+    } else if (!allowedTags.has(name) && !dropping) {
+      violations.push({
+        category: "disallowed_tag",
+        reason: `Disallowed HTML tag: ${name}`,
+      });
+    }
+
+    const emit = !forbidden && !dropping && allowedTags.has(name);
+    if (emit) {
+      let serialized = `<${name}`;
+      for (const [attrName, value] of token.attributes) {
+        if (attrName.startsWith("on")) {
+          violations.push({
+            category: "security_pattern",
+            reason: "Event handlers not allowed",
+          });
+          continue;
+        }
+        let attrValue = value;
+        if (attrName === "style") {
+          // Style is governed by its own switch, never by allowed_attributes
+          if (!policy.allowStyleAttributes) {
+            violations.push({
+              category: "disallowed_attribute",
+              reason: `Disallowed attribute "style" on <${name}>`,
+            });
+            continue;
+          }
+          attrValue = sanitizeStyle(value || "", policy);
+          if (attrValue === null) {
+            violations.push({
+              category: "security_pattern",
+              reason: `Unsafe CSS value in <${name}> style attribute`,
+            });
+            continue;
+          }
+          if (!attrValue) continue;
+        } else if (!isAttributeAllowed(name, attrName, policy)) {
+          violations.push({
+            category: "disallowed_attribute",
+            reason: `Disallowed attribute "${attrName}" on <${name}>`,
+          });
+          continue;
+        }
+        if (attrValue !== null && URL_ATTRIBUTES.has(attrName)) {
+          const scheme = findDisallowedScheme(attrName, attrValue, policy);
+          if (scheme) {
+            violations.push({
+              category: "security_pattern",
+              reason: `Disallowed URL scheme "${scheme}:" in <${name}> ${attrName} attribute`,
+            });
+            continue;
+          }
+        }
+        serialized +=
+          attrValue === null
+            ? ` ${attrName}`
+            : ` ${attrName}="${escapeAttribute(attrValue)}"`;
+      }
+      output.push(`${serialized}>`);
+    }
+
+    if (!VOID_ELEMENTS.has(name)) {
+      if (stack.length >= MAX_NESTING_DEPTH) {
+        violations.push({
+          category: "html_structure",
+          reason: `HTML nested deeper than ${MAX_NESTING_DEPTH} elements`,
+        });
+        return { html: "", violations, tagCount, tagLength, textLength: 0 };
+      }
+      pushElement({ name, emit, drop: !!forbidden });
+    }
+  }
+
+  // Close whatever is still open at the end of the fragment
+  const unclosed = stack
+    .filter((element) => !OPTIONAL_END_TAGS.has(element.name))
+    .map((element) => element.name);
+  if (unclosed.length > 0) {
+    violations.push({
+      category: "html_structure",
+      reason: `Unclosed HTML tags: ${unclosed.join(", ")}`,
+    });
+  }
+  while (stack.length) popElement();
+
+  return {
+    html: output.join(""),
+    violations,
+    tagCount,
+    tagLength,
+    textLength: text.trim().length,
+  };
+}
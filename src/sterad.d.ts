@@ -3,8 +3,26 @@
 interface SteradCacheInfo {
   cached: boolean;
   lastCached: string | null;
+  /** When the snapshot expires, or null if it never does */
+  expiresAt: string | null;
+  /** Whether the snapshot is past its TTL and awaiting a fresh capture */
+  stale: boolean;
+  /** When the page was last evicted from the disk cache, if it was recently */
+  evictedAt?: string | null;
   size?: number;
+  /** Title of the captured page */
+  title?: string;
+  /** Hex SHA-256 of the sanitized root element content, not the composed page */
+  contentHash?: string;
+  /** Who submitted the capture */
+  source?: { userAgent: "bot" | "human"; manual: boolean };
+  /** HTTP status served to bots */
+  status?: number;
+  /** Redirect target served to bots for 3xx statuses */
+  location?: string | null;
   path: string;
+  /** Normalized cache key the path maps to */
+  cacheKey?: string;
 }
 
 interface SteradAPI {
@@ -32,8 +50,26 @@ interface SteradAPI {
    */
   getLastCached(): Promise<Date | null>;
 
+  /**
+   * Declare the HTTP status bots should receive for this page, e.g. 404
+   * for a client-rendered "not found" page
+   */
+  setStatus(code: 200 | 404 | 410): void;
+
+  /**
+   * Declare that this page redirects. Bots receive the status with a
+   * Location header; the SPA remains responsible for navigating users.
+   * @param path Same-origin path to redirect to
+   * @param code Redirect status, defaults to 301
+   */
+  redirect(path: string, code?: 301 | 302 | 303 | 307 | 308): void;
+
   /** Internal flag to track manual cache triggering */
   _manualCacheTriggered?: boolean;
+
+  /** Internal status and redirect target declared by the page */
+  _status?: number | null;
+  _location?: string | null;
 }
 
 declare global {
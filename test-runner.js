@@ -6,6 +6,10 @@ import { join } from "path";
 
 const TESTS_DIR = "./tests";
 const TEST_TIMEOUT = 30000; // 30 seconds per test
+// Files that also run under Node, for the parts of Sterad that behave
+// differently there. The hooks let Node load the TypeScript sources
+const NODE_TEST_FILES = ["test-runtimes.js"];
+const NODE_ARGS = ["--import", "./tests/node/register.js"];
 
 // ANSI color codes for better output
 const colors = {
@@ -55,14 +59,18 @@ function getTestFiles() {
   return files.sort();
 }
 
-// Run a single test file
-async function runTest(testFile) {
+// Run a single test file under Bun, or under Node
+async function runTest(testFile, runtime = "bun") {
   return new Promise((resolve) => {
-    const testName = testFile.replace(/^.*\//, "").replace(/\.js$/, "");
+    const testName =
+      testFile.replace(/^.*\//, "").replace(/\.js$/, "") +
+      (runtime === "node" ? " (node)" : "");
     log(`Running ${testName}...`, "yellow");
 
     const startTime = Date.now();
-    const proc = spawn("bun", ["run", testFile], {
+    const args =
+      runtime === "node" ? [...NODE_ARGS, testFile] : ["run", testFile];
+    const proc = spawn(runtime, args, {
       stdio: ["pipe", "pipe", "pipe"],
       env: {
         ...process.env,
@@ -187,8 +195,13 @@ async function runAllTests() {
   logSubHeader("RUNNING TESTS");
 
   // Run tests sequentially to avoid resource conflicts
-  for (const testFile of testFiles) {
-    const result = await runTest(testFile);
+  const runs = testFiles.flatMap((testFile) =>
+    NODE_TEST_FILES.some((name) => testFile.endsWith(name))
+      ? [[testFile], [testFile, "node"]]
+      : [[testFile]]
+  );
+  for (const [testFile, runtime] of runs) {
+    const result = await runTest(testFile, runtime);
     results.push(result);
     totalDuration += result.duration;
 
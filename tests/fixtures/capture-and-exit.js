@@ -0,0 +1,13 @@
+// Captures one page through the intercept script and returns, leaving the
+// process to exit once nothing else holds it open
+import { rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { capture, cleanUp, createTestHandler } from "../helpers.js";
+
+const { handler } = await createTestHandler({
+  intercept_script: "./tests/fixtures/intercept-counter.js",
+});
+await capture(handler, "/about");
+await cleanUp();
+rmSync(join(tmpdir(), `sterad-intercept-${process.pid}.log`), { force: true });
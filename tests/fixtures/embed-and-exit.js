@@ -0,0 +1,13 @@
+// Creates a handler from a config object and serves one request without
+// closing it; the process should still exit on its own
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createSteradHandler } from "../../src/handler.ts";
+
+const spa_dist = mkdtempSync(join(tmpdir(), "sterad-test-"));
+process.on("exit", () => rmSync(spa_dist, { recursive: true, force: true }));
+writeFileSync(join(spa_dist, "index.html"), "<html><body></body></html>");
+
+const handler = await createSteradHandler({ spa_dist, cache_routes: ["/*"] });
+await handler(new Request("http://localhost/"));
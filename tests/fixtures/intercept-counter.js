@@ -0,0 +1,18 @@
+// Intercept script for the tests: records each run in a log named after the
+// Sterad process that spawned it and marks the page it returns
+import { appendFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+let input = "";
+process.stdin.on("data", (chunk) => (input += chunk));
+process.stdin.on("end", () => {
+  const { html, context } = JSON.parse(input);
+  appendFileSync(
+    join(tmpdir(), `sterad-intercept-${process.ppid}.log`),
+    `${context.path}\n`
+  );
+  process.stdout.write(
+    html.replace("</body>", '<p id="intercepted"></p></body>')
+  );
+});
@@ -0,0 +1,159 @@
+// Shared setup for the behaviour tests: a throwaway spa_dist, handlers created
+// from it, request helpers and a small test()/run() harness whose summary line
+// test-runner.js reads
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import { createAdminToken, loadJWTConfig } from "../src/admin-token.ts";
+import { createSteradHandler } from "../src/handler.ts";
+
+export const BROWSER = "Mozilla/5.0 (X11; Linux x86_64) Firefox/128.0";
+export const BOT = "Mozilla/5.0 (compatible; Googlebot/2.1)";
+
+export const SHELL = `<!DOCTYPE html>
+<html>
+<head><title>App</title></head>
+<body><div id="root"></div><script src="/assets/app.js"></script></body>
+</html>`;
+
+const cleanups = [];
+
+// Handler logs are noise unless a test fails; STERAD_TEST_VERBOSE keeps them
+const output = console.log;
+if (!process.env.STERAD_TEST_VERBOSE) {
+  console.log = console.warn = console.error = () => {};
+}
+
+export function createSpaDist(files = {}) {
+  const dir = mkdtempSync(join(tmpdir(), "sterad-test-"));
+  cleanups.push(() => rmSync(dir, { recursive: true, force: true }));
+  writeSpaFiles(dir, {
+    "index.html": SHELL,
+    "assets/app.js": "console.log('app');",
+    ...files,
+  });
+  return dir;
+}
+
+export function writeSpaFiles(dir, files) {
+  for (const [name, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(dir, name)), { recursive: true });
+    writeFileSync(join(dir, name), content);
+  }
+}
+
+// Captures are not rate limited unless a test asks for it
+export async function createTestHandler(config = {}, options = {}) {
+  const spa_dist = config.spa_dist ?? createSpaDist();
+  const handler = await createSteradHandler(
+    {
+      spa_dist,
+      cache_routes: ["/*"],
+      not_cache_routes: ["/api/*"],
+      capture_rate_limit: 0,
+      capture_path_cooldown: 0,
+      ...config,
+    },
+    options
+  );
+  cleanups.push(() => handler.close());
+  return { handler, spa_dist };
+}
+
+export function clientAddress(ip) {
+  return { requestIP: () => ({ address: ip }) };
+}
+
+export function request(
+  handler,
+  path,
+  {
+    method = "GET",
+    userAgent = BROWSER,
+    headers = {},
+    body,
+    ip = "10.0.0.1",
+  } = {}
+) {
+  return handler(
+    new Request(`http://localhost${path}`, {
+      method,
+      headers: { "User-Agent": userAgent, ...headers },
+      body,
+    }),
+    clientAddress(ip)
+  );
+}
+
+// Authorization header for the admin routes, signed with JWT_SECRET
+export async function adminAuthorization(scopes = []) {
+  const token = await createAdminToken(loadJWTConfig(), {
+    subject: "test",
+    ttl: 300,
+    scopes,
+  });
+  return { Authorization: `Bearer ${token}` };
+}
+
+// The token the shell served for a path carries
+export async function getCaptureToken(handler, path) {
+  const html = await (await request(handler, path)).text();
+  return html.match(/sterad-capture-token" content="([^"]+)"/)?.[1];
+}
+
+export async function capture(
+  handler,
+  path,
+  {
+    content = "<h1>Captured page</h1><p>Some text that was rendered.</p>",
+    title = "Captured",
+    token,
+    ip,
+    headers,
+    ...payload
+  } = {}
+) {
+  return request(handler, "/__sterad_capture", {
+    method: "POST",
+    ip,
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify({
+      path,
+      title,
+      content,
+      token: token === undefined ? await getCaptureToken(handler, path) : token,
+      ...payload,
+    }),
+  });
+}
+
+// Close handlers and remove the directories created so far
+export async function cleanUp() {
+  for (const cleanup of cleanups.splice(0).reverse()) {
+    await cleanup();
+  }
+}
+
+const tests = [];
+
+export function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+export async function run() {
+  let passed = 0;
+  let failed = 0;
+  for (const { name, fn } of tests) {
+    try {
+      await fn();
+      output(`✅ ${name}`);
+      passed++;
+    } catch (error) {
+      output(`❌ ${name}\n   ${error?.stack || error}`);
+      failed++;
+    }
+  }
+  await cleanUp();
+  output(`\nResults: ${passed} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
@@ -0,0 +1,33 @@
+// Module hooks that let Node run the tests against the TypeScript sources:
+// ".ts" files are transpiled on load, and the ".js" specifiers the sources use
+// for each other resolve to the ".ts" files next to them
+import { readFile } from "fs/promises";
+import { fileURLToPath } from "url";
+import ts from "typescript";
+
+export async function resolve(specifier, context, nextResolve) {
+  if (
+    specifier.startsWith(".") &&
+    specifier.endsWith(".js") &&
+    context.parentURL?.endsWith(".ts")
+  ) {
+    return nextResolve(specifier.replace(/\.js$/, ".ts"), context);
+  }
+  return nextResolve(specifier, context);
+}
+
+export async function load(url, context, nextLoad) {
+  if (!url.endsWith(".ts")) {
+    return nextLoad(url, context);
+  }
+  const source = await readFile(fileURLToPath(url), "utf-8");
+  const { outputText } = ts.transpileModule(source, {
+    fileName: fileURLToPath(url),
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ES2022,
+      verbatimModuleSyntax: true,
+    },
+  });
+  return { format: "module", source: outputText, shortCircuit: true };
+}
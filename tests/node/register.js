@@ -0,0 +1,4 @@
+// node --import ./tests/node/register.js tests/test-<name>.js
+import { register } from "module";
+
+register("./hooks.js", import.meta.url);
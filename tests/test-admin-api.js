@@ -0,0 +1,197 @@
+// The cache administration routes: listing, entry lookup, purges and stats
+import assert from "assert/strict";
+import {
+  adminAuthorization,
+  BOT,
+  capture,
+  createTestHandler,
+  request,
+  run,
+  test,
+} from "./helpers.js";
+
+const PAGES = ["/about", "/blog/first", "/blog/second"];
+
+// Captured oldest first, a few ms apart so the order is unambiguous
+async function createCachedHandler(config = {}) {
+  const { handler, spa_dist } = await createTestHandler(config);
+  for (const path of PAGES) {
+    await capture(handler, path, {
+      title: path,
+      content: `<h1>${path}</h1><p>Page text.</p>`,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  return { handler, spa_dist };
+}
+
+async function admin(handler, path, { method = "GET" } = {}) {
+  const response = await request(handler, path, {
+    method,
+    headers: await adminAuthorization(),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+async function isServedToBots(handler, path) {
+  const response = await request(handler, path, { userAgent: BOT });
+  return (await response.text()).includes(`<h1>${path}</h1>`);
+}
+
+test("entries are listed newest first and filtered by pattern", async () => {
+  const { handler } = await createCachedHandler();
+
+  const all = await admin(handler, "/__sterad_admin/cache");
+  assert.equal(all.status, 200);
+  assert.equal(all.body.total, 3);
+  assert.deepEqual(
+    all.body.entries.map(({ path }) => path),
+    [...PAGES].reverse()
+  );
+  assert.equal(all.body.entries[0].title, "/blog/second");
+  assert.ok("lastAccessed" in all.body.entries[0]);
+  assert.equal(all.body.disk.entries, 3);
+
+  const blog = await admin(handler, "/__sterad_admin/cache?pattern=/blog/*");
+  assert.equal(blog.body.total, 2);
+  assert.deepEqual(
+    blog.body.entries.map(({ path }) => path),
+    ["/blog/second", "/blog/first"]
+  );
+});
+
+test("listings are paged", async () => {
+  const { handler } = await createCachedHandler();
+
+  const second = await admin(handler, "/__sterad_admin/cache?limit=1&page=2");
+  assert.equal(second.body.total, 3);
+  assert.equal(second.body.page, 2);
+  assert.equal(second.body.limit, 1);
+  assert.deepEqual(
+    second.body.entries.map(({ path }) => path),
+    ["/blog/first"]
+  );
+
+  const past = await admin(handler, "/__sterad_admin/cache?limit=2&page=3");
+  assert.deepEqual(past.body.entries, []);
+
+  const clamped = await admin(
+    handler,
+    "/__sterad_admin/cache?limit=9999&page=0"
+  );
+  assert.equal(clamped.body.limit, 500);
+  assert.equal(clamped.body.page, 1);
+});
+
+test("one entry is returned with its fragment and composed page", async () => {
+  const { handler } = await createCachedHandler();
+
+  const entry = await admin(
+    handler,
+    "/__sterad_admin/cache/entry?path=/blog/first"
+  );
+  assert.equal(entry.status, 200);
+  assert.equal(entry.body.meta.path, "/blog/first");
+  assert.equal(entry.body.meta.format, "fragment");
+  assert.equal(entry.body.content, "<h1>/blog/first</h1><p>Page text.</p>");
+  assert.match(
+    entry.body.html,
+    /<div id="root"><h1>\/blog\/first<\/h1><p>Page text.<\/p><\/div>/
+  );
+
+  const missing = await admin(
+    handler,
+    "/__sterad_admin/cache/entry?path=/nope"
+  );
+  assert.equal(missing.status, 404);
+  const invalid = await admin(handler, "/__sterad_admin/cache/entry");
+  assert.equal(invalid.status, 400);
+});
+
+test("a pattern purge removes only the matching entries", async () => {
+  const { handler } = await createCachedHandler();
+  for (const path of PAGES) {
+    assert.ok(await isServedToBots(handler, path));
+  }
+
+  const purge = await admin(handler, "/__sterad_admin/cache?pattern=/blog/*", {
+    method: "DELETE",
+  });
+  assert.equal(purge.status, 200);
+  assert.deepEqual(purge.body, { purged: 2, pattern: "/blog/*" });
+  assert.ok(await isServedToBots(handler, "/about"));
+  assert.ok(!(await isServedToBots(handler, "/blog/first")));
+  assert.ok(!(await isServedToBots(handler, "/blog/second")));
+
+  const missing = await admin(handler, "/__sterad_admin/cache", {
+    method: "DELETE",
+  });
+  assert.equal(missing.status, 400);
+});
+
+test("purging everything empties memory and disk", async () => {
+  const { handler, spa_dist } = await createCachedHandler();
+  await isServedToBots(handler, "/about");
+
+  const purge = await admin(handler, "/__sterad_admin/cache/all", {
+    method: "DELETE",
+  });
+  assert.deepEqual(purge.body, { purged: 3 });
+  assert.ok(!(await isServedToBots(handler, "/about")));
+
+  const stats = await admin(handler, "/__sterad_admin/stats");
+  assert.equal(stats.body.count, 0);
+  assert.equal(stats.body.memory.snapshots.entries, 0);
+  assert.equal(stats.body.disk.entries, 0);
+
+  const { handler: restarted } = await createTestHandler({ spa_dist });
+  assert.ok(!(await isServedToBots(restarted, "/about")));
+});
+
+test("stats summarize the cache", async () => {
+  const { handler } = await createCachedHandler();
+  await isServedToBots(handler, "/about");
+
+  const { status, body } = await admin(handler, "/__sterad_admin/stats");
+  assert.equal(status, 200);
+  assert.equal(body.count, 3);
+  assert.ok(body.bytes > 0);
+  assert.equal(body.newest.path, "/blog/second");
+  assert.equal(body.oldest.path, "/about");
+  assert.equal(body.memory.snapshots.entries, 1);
+  assert.equal(body.disk.entries, 3);
+  assert.ok(body.disk.bytes >= body.bytes);
+});
+
+test("purging needs the purge scope", async () => {
+  const { handler } = await createCachedHandler();
+  const response = await request(handler, "/__sterad_admin/cache/all", {
+    method: "DELETE",
+    headers: await adminAuthorization(["read"]),
+  });
+  assert.equal(response.status, 401);
+  assert.ok(await isServedToBots(handler, "/about"));
+});
+
+test("a purged page can be captured again within its cooldown", async () => {
+  const { handler } = await createCachedHandler({ capture_path_cooldown: 60 });
+  const recapture = () =>
+    capture(handler, "/about", {
+      content: "<h1>Updated</h1><p>New page text.</p>",
+    });
+  assert.equal((await recapture()).status, 429);
+
+  await admin(handler, "/__sterad_admin/cache?pattern=/about", {
+    method: "DELETE",
+  });
+  assert.equal((await recapture()).status, 200);
+  const html = await (
+    await request(handler, "/about", { userAgent: BOT })
+  ).text();
+  assert.match(html, /<h1>Updated<\/h1>/);
+
+  await admin(handler, "/__sterad_admin/cache/all", { method: "DELETE" });
+  assert.equal((await recapture()).status, 200);
+});
+
+await run();
@@ -0,0 +1,136 @@
+// ByteLru and the two in-memory tiers built on it: snapshots and static
+// assets, each with its own byte budget
+import assert from "assert/strict";
+import { ByteLru } from "../src/byte-lru.ts";
+import {
+  BOT,
+  capture,
+  createSpaDist,
+  createTestHandler,
+  request,
+  run,
+  test,
+} from "./helpers.js";
+
+function sized(size) {
+  return { size };
+}
+
+test("the byte budget evicts the least recently used values", () => {
+  const lru = new ByteLru({ maxBytes: 100 });
+  lru.set("a", sized(40));
+  lru.set("b", sized(40));
+  // Reading a makes b the least recently used
+  lru.get("a");
+  lru.set("c", sized(40));
+  assert.deepEqual([...lru.keys()], ["a", "c"]);
+  assert.equal(lru.bytes, 80);
+
+  // One large value can push out several small ones
+  lru.set("d", sized(90));
+  assert.deepEqual([...lru.keys()], ["d"]);
+  assert.equal(lru.size, 1);
+  assert.equal(lru.bytes, 90);
+});
+
+test("replacing a value counts only its new size", () => {
+  const lru = new ByteLru({ maxBytes: 100 });
+  lru.set("a", sized(60));
+  lru.set("b", sized(30));
+  lru.set("a", sized(10));
+  assert.equal(lru.bytes, 40);
+  // Replaced values become the most recently used
+  assert.deepEqual([...lru.keys()], ["b", "a"]);
+
+  assert.equal(lru.delete("b"), true);
+  assert.equal(lru.delete("b"), false);
+  assert.equal(lru.bytes, 10);
+  lru.clear();
+  assert.equal(lru.size, 0);
+  assert.equal(lru.bytes, 0);
+});
+
+test("maxEntries caps the count alongside the bytes", () => {
+  const lru = new ByteLru({ maxBytes: 1000, maxEntries: 2 });
+  for (const key of ["a", "b", "c"]) {
+    lru.set(key, sized(1));
+  }
+  assert.deepEqual([...lru.keys()], ["b", "c"]);
+});
+
+test("values above maxEntryBytes are rejected without evicting", () => {
+  const lru = new ByteLru({ maxBytes: 100, maxEntryBytes: 50 });
+  lru.set("a", sized(40));
+  lru.set("b", sized(40));
+  assert.equal(lru.set("c", sized(51)), false);
+  assert.equal(lru.has("c"), false);
+  assert.deepEqual([...lru.keys()], ["a", "b"]);
+  assert.equal(lru.bytes, 80);
+
+  // A value that grows past the limit drops the old one too
+  assert.equal(lru.set("a", sized(60)), false);
+  assert.equal(lru.get("a"), undefined);
+  assert.equal(lru.bytes, 40);
+
+  // Without maxEntryBytes the whole budget is the limit
+  const unlimited = new ByteLru({ maxBytes: 100 });
+  assert.equal(unlimited.set("a", sized(100)), true);
+  assert.equal(unlimited.set("b", sized(101)), false);
+  assert.deepEqual([...unlimited.keys()], ["a"]);
+});
+
+test("static assets don't push snapshots out of memory", async () => {
+  const assets = Object.fromEntries(
+    Array.from({ length: 8 }, (_, i) => [
+      `assets/chunk-${i}.js`,
+      `/* ${i} */ ${"x".repeat(1000)}`,
+    ])
+  );
+  const { handler } = await createTestHandler({
+    spa_dist: createSpaDist({
+      ...assets,
+      "assets/video.mp4": "v".repeat(5000),
+    }),
+    static_cache_max_bytes: 3000,
+    static_cache_max_file_bytes: 2000,
+    debug_headers: true,
+  });
+  await capture(handler, "/about");
+  // The first read loads the snapshot into memory
+  await request(handler, "/about", { userAgent: BOT });
+
+  for (const name of Object.keys(assets)) {
+    const response = await request(handler, `/${name}`);
+    assert.equal(response.status, 200);
+    assert.equal(await response.text(), assets[name]);
+  }
+  const video = await request(handler, "/assets/video.mp4");
+  assert.equal((await video.text()).length, 5000);
+
+  const { memory } = await handler.stats();
+  assert.equal(memory.snapshots.entries, 1);
+  // Only the chunks that fit the static budget are held, never the video
+  assert.equal(memory.staticAssets.entries, 2);
+  assert.ok(memory.staticAssets.bytes <= 3000, `${memory.staticAssets.bytes}`);
+
+  const snapshot = await request(handler, "/about", { userAgent: BOT });
+  assert.equal(snapshot.headers.get("X-Sterad-Cache"), "HIT-MEMORY");
+});
+
+test("snapshots don't push static assets out of memory", async () => {
+  const { handler } = await createTestHandler({
+    memory_cache_limit: 1,
+    debug_headers: true,
+  });
+  await request(handler, "/assets/app.js");
+  for (const path of ["/a", "/b", "/c"]) {
+    await capture(handler, path);
+    await request(handler, path, { userAgent: BOT });
+  }
+
+  const { memory } = await handler.stats();
+  assert.equal(memory.snapshots.entries, 1);
+  assert.equal(memory.staticAssets.entries, 1);
+});
+
+await run();
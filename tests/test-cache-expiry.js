@@ -0,0 +1,142 @@
+// cache_ttl and cache_ttl_routes: stale snapshots keep going to bots while
+// the next human visitor refreshes them, and cache info reports the expiry
+import assert from "assert/strict";
+import {
+  BOT,
+  capture,
+  createTestHandler,
+  request,
+  run,
+  test,
+} from "./helpers.js";
+
+// Fractions of a second keep the tests short
+const TTL = 0.1;
+
+function waitForExpiry() {
+  return new Promise((resolve) => setTimeout(resolve, TTL * 1000 + 50));
+}
+
+async function serve(handler, path, userAgent) {
+  const response = await request(handler, path, { userAgent });
+  return {
+    cache: response.headers.get("X-Sterad-Cache"),
+    stale: response.headers.get("X-Sterad-Stale"),
+    html: await response.text(),
+  };
+}
+
+async function cacheInfo(handler, path) {
+  return (await request(handler, `/__sterad_cache_info?path=${path}`)).json();
+}
+
+test("bots keep getting a stale snapshot", async () => {
+  const { handler, spa_dist } = await createTestHandler({
+    cache_ttl: TTL,
+    debug_headers: true,
+  });
+  await capture(handler, "/about");
+  const fresh = await serve(handler, "/about", BOT);
+  assert.equal(fresh.cache, "HIT-DISK");
+  assert.equal(fresh.stale, "false");
+
+  await waitForExpiry();
+  const stale = await serve(handler, "/about", BOT);
+  assert.equal(stale.cache, "HIT-MEMORY");
+  assert.equal(stale.stale, "true");
+  assert.match(stale.html, /Captured page/);
+
+  const { handler: restarted } = await createTestHandler({
+    spa_dist,
+    cache_ttl: TTL,
+    debug_headers: true,
+  });
+  const fromDisk = await serve(restarted, "/about", BOT);
+  assert.equal(fromDisk.cache, "HIT-DISK");
+  assert.equal(fromDisk.stale, "true");
+  assert.match(fromDisk.html, /Captured page/);
+});
+
+test("the next human visitor gets the capture script", async () => {
+  for (const serve_cached_to of ["all_clients", "crawlers_only"]) {
+    const { handler } = await createTestHandler({
+      cache_ttl: TTL,
+      serve_cached_to,
+      debug_headers: true,
+    });
+    await capture(handler, "/about");
+    // Loaded into memory, so both tiers are checked for staleness
+    await serve(handler, "/about", BOT);
+    const fresh = await serve(handler, "/about");
+    assert.equal(
+      fresh.cache,
+      serve_cached_to === "all_clients" ? "HIT-MEMORY" : "BYPASS-HUMAN"
+    );
+
+    await waitForExpiry();
+    const stale = await serve(handler, "/about");
+    assert.equal(stale.cache, "MISS-CAPTURE", serve_cached_to);
+    assert.equal(stale.stale, "true");
+    assert.doesNotMatch(stale.html, /Captured page/);
+    assert.match(stale.html, /sterad-capture-token/);
+
+    // Their capture replaces the stale entry
+    await capture(handler, "/about", {
+      content: "<h1>Refreshed</h1><p>Captured again.</p>",
+    });
+    const refreshed = await serve(handler, "/about", BOT);
+    assert.equal(refreshed.stale, "false");
+    assert.match(refreshed.html, /Refreshed/);
+  }
+});
+
+test("without a TTL snapshots never go stale", async () => {
+  const { handler } = await createTestHandler({
+    serve_cached_to: "all_clients",
+    debug_headers: true,
+  });
+  await capture(handler, "/about");
+  await waitForExpiry();
+  const human = await serve(handler, "/about");
+  assert.equal(human.cache, "HIT-DISK");
+  assert.equal(human.stale, "false");
+
+  const info = await cacheInfo(handler, "/about");
+  assert.equal(info.expiresAt, null);
+  assert.equal(info.stale, false);
+});
+
+test("cache info reports when a snapshot expires", async () => {
+  const { handler } = await createTestHandler({
+    cache_ttl: 3600,
+    cache_ttl_routes: { "/news/*": TTL, "/about": 0 },
+  });
+  for (const path of ["/news/today", "/about", "/pricing"]) {
+    await capture(handler, path);
+  }
+
+  const news = await cacheInfo(handler, "/news/today");
+  assert.equal(
+    Date.parse(news.expiresAt) - Date.parse(news.lastCached),
+    TTL * 1000
+  );
+  assert.equal(news.stale, false);
+  const pricing = await cacheInfo(handler, "/pricing");
+  assert.equal(
+    Date.parse(pricing.expiresAt) - Date.parse(pricing.lastCached),
+    3600 * 1000
+  );
+  // A TTL of 0 in the routes table turns expiry off for that route
+  assert.equal((await cacheInfo(handler, "/about")).expiresAt, null);
+
+  await waitForExpiry();
+  assert.equal((await cacheInfo(handler, "/news/today")).stale, true);
+  assert.equal((await cacheInfo(handler, "/pricing")).stale, false);
+
+  const missing = await cacheInfo(handler, "/never");
+  assert.equal(missing.cached, false);
+  assert.equal(missing.expiresAt, null);
+  assert.equal(missing.stale, false);
+});
+
+await run();
@@ -0,0 +1,126 @@
+// createCacheKeys: which query params make up a cache key, per route and with
+// the configured defaults
+import assert from "assert/strict";
+import { createCacheKeys } from "../src/cache-key.ts";
+import { validateConfig } from "../src/config.ts";
+import { run, test } from "./helpers.js";
+
+function cacheKeys(config = {}) {
+  return createCacheKeys(
+    validateConfig({ spa_dist: "dist", cache_routes: ["/*"], ...config })
+  );
+}
+
+test("ignore mode leaves the query out of the key", () => {
+  const { getCacheKey } = cacheKeys();
+  assert.equal(getCacheKey("/products", "?page=2&sort=price"), "/products");
+  assert.equal(getCacheKey("/products", ""), "/products");
+});
+
+test("keep mode keeps every param except the dropped ones", () => {
+  const { getCacheKey } = cacheKeys({ cache_query_params: "keep" });
+  assert.equal(getCacheKey("/products", "?page=2"), "/products?page=2");
+  assert.equal(getCacheKey("/products", "?"), "/products");
+  // utm_* by prefix, gclid and fbclid by name
+  assert.equal(
+    getCacheKey(
+      "/products",
+      "?utm_source=news&page=2&utm_campaign=x&gclid=1&fbclid=2&utm=3"
+    ),
+    "/products?page=2&utm=3"
+  );
+  assert.equal(
+    getCacheKey("/products", "?utm_source=news&gclid=1"),
+    "/products"
+  );
+  // The debug param never counts
+  assert.equal(
+    getCacheKey("/products", "?__sterad_debug=1&page=2"),
+    "/products?page=2"
+  );
+});
+
+test("cache_drop_query_params replaces the default list", () => {
+  const { getCacheKey } = cacheKeys({
+    cache_query_params: "keep",
+    cache_drop_query_params: ["ref", "session*"],
+  });
+  assert.equal(
+    getCacheKey("/a", "?ref=x&sessionid=1&utm_source=news&page=2"),
+    "/a?page=2&utm_source=news"
+  );
+});
+
+test("params are sorted by name, then value", () => {
+  const { getCacheKey } = cacheKeys({ cache_query_params: "keep" });
+  assert.equal(
+    getCacheKey("/search", "?q=shoes&color=red&color=blue&page=1"),
+    "/search?color=blue&color=red&page=1&q=shoes"
+  );
+  assert.equal(
+    getCacheKey("/search", "?page=1&q=shoes"),
+    getCacheKey("/search", "?q=shoes&page=1")
+  );
+
+  const unsorted = cacheKeys({
+    cache_query_params: "keep",
+    cache_sort_query_params: false,
+  });
+  assert.equal(
+    unsorted.getCacheKey("/search", "?q=shoes&color=red&page=1"),
+    "/search?q=shoes&color=red&page=1"
+  );
+});
+
+test("route allowlists pick the params for matching paths", () => {
+  const { getCacheKey } = cacheKeys({
+    cache_query_params_routes: {
+      "/products/*": ["page", "sort"],
+      // Never reached for /products/..., the first match wins
+      "/products/sale": ["utm_source"],
+      "/search": ["q"],
+    },
+  });
+  assert.equal(
+    getCacheKey("/products/shoes", "?sort=price&page=2&color=red"),
+    "/products/shoes?page=2&sort=price"
+  );
+  assert.equal(
+    getCacheKey("/products/sale", "?utm_source=news&page=3"),
+    "/products/sale?page=3"
+  );
+  assert.equal(getCacheKey("/search", "?q=a+b&page=2"), "/search?q=a+b");
+  // Outside the allowlisted routes the global mode still applies
+  assert.equal(getCacheKey("/about", "?q=a"), "/about");
+});
+
+test("an allowlist may keep params the drop list would remove", () => {
+  const { getCacheKey } = cacheKeys({
+    cache_query_params: "keep",
+    cache_query_params_routes: { "/campaigns/*": ["utm_campaign"] },
+  });
+  assert.equal(
+    getCacheKey("/campaigns/spring", "?utm_campaign=spring&utm_source=x"),
+    "/campaigns/spring?utm_campaign=spring"
+  );
+  assert.equal(getCacheKey("/about", "?utm_campaign=spring&a=1"), "/about?a=1");
+});
+
+test("param values are re-encoded consistently", () => {
+  const { getCacheKey } = cacheKeys({ cache_query_params: "keep" });
+  assert.equal(getCacheKey("/s", "?q=a%20b"), getCacheKey("/s", "?q=a+b"));
+  assert.equal(getCacheKey("/s", "?q=%C3%A9"), "/s?q=%C3%A9");
+  assert.equal(getCacheKey("/s", "?q=é"), "/s?q=%C3%A9");
+});
+
+test("getCacheKeyFromPath splits and decodes a client path", () => {
+  const { getCacheKeyFromPath } = cacheKeys({ cache_query_params: "keep" });
+  assert.equal(
+    getCacheKeyFromPath("/caf%C3%A9?utm_source=x&b=2&a=1"),
+    "/café?a=1&b=2"
+  );
+  assert.equal(getCacheKeyFromPath("/about"), "/about");
+  assert.equal(getCacheKeyFromPath("/bad%ZZ?a=1"), null);
+});
+
+await run();
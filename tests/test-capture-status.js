@@ -0,0 +1,140 @@
+// Declared page statuses: which ones a capture may carry, where redirects may
+// point, and who gets the status when the snapshot is served
+import assert from "assert/strict";
+import {
+  BOT,
+  capture,
+  createTestHandler,
+  request,
+  run,
+  test,
+} from "./helpers.js";
+
+async function isCached(handler, path) {
+  const response = await request(handler, path, { userAgent: BOT });
+  return /Captured page/.test(await response.text());
+}
+
+test("bots get a declared 404 or 410 with the snapshot", async () => {
+  const { handler } = await createTestHandler({
+    serve_cached_to: "all_clients",
+  });
+  for (const status of [404, 410]) {
+    const path = `/missing-${status}`;
+    const captured = await capture(handler, path, { status });
+    assert.equal(captured.status, 200);
+
+    // Disk and memory hits alike
+    for (let i = 0; i < 2; i++) {
+      const response = await request(handler, path, { userAgent: BOT });
+      assert.equal(response.status, status);
+      assert.equal(response.headers.get("Location"), null);
+      assert.match(await response.text(), /Captured page/);
+    }
+    // Everyone else gets the page with a 200
+    const human = await request(handler, path);
+    assert.equal(human.status, 200);
+    assert.match(await human.text(), /Captured page/);
+  }
+});
+
+test("bots get a declared redirect with its Location", async () => {
+  const { handler } = await createTestHandler({
+    serve_cached_to: "all_clients",
+  });
+  for (const status of [301, 302, 303, 307, 308]) {
+    const path = `/old-${status}`;
+    await capture(handler, path, { status, location: "/new?from=old#top" });
+    for (let i = 0; i < 2; i++) {
+      const response = await request(handler, path, { userAgent: BOT });
+      assert.equal(response.status, status);
+      assert.equal(response.headers.get("Location"), "/new?from=old#top");
+    }
+    const human = await request(handler, path);
+    assert.equal(human.status, 200);
+    assert.equal(human.headers.get("Location"), null);
+  }
+});
+
+test("the status survives a restart", async () => {
+  const { handler, spa_dist } = await createTestHandler();
+  await capture(handler, "/old", { status: 301, location: "/new" });
+  await capture(handler, "/gone", { status: 410 });
+
+  const { handler: restarted } = await createTestHandler({ spa_dist });
+  const moved = await request(restarted, "/old", { userAgent: BOT });
+  assert.equal(moved.status, 301);
+  assert.equal(moved.headers.get("Location"), "/new");
+  const gone = await request(restarted, "/gone", { userAgent: BOT });
+  assert.equal(gone.status, 410);
+});
+
+test("a recapture without a status serves a 200 again", async () => {
+  const { handler } = await createTestHandler();
+  await capture(handler, "/page", { status: 404 });
+  assert.equal(
+    (await request(handler, "/page", { userAgent: BOT })).status,
+    404
+  );
+  await capture(handler, "/page");
+  const response = await request(handler, "/page", { userAgent: BOT });
+  assert.equal(response.status, 200);
+  assert.equal(response.headers.get("Location"), null);
+});
+
+test("captures with an unsupported status are rejected", async () => {
+  const { handler } = await createTestHandler();
+  for (const status of [201, 204, 304, 400, 403, 500, 503, "404", 404.5, 0]) {
+    const path = `/status-${String(status).replace(".", "-")}`;
+    const response = await capture(handler, path, { status });
+    // Rejections look like successes to the client
+    assert.equal(response.status, 200);
+    assert.equal(await isCached(handler, path), false, String(status));
+  }
+  // A status of null is the same as none
+  await capture(handler, "/status-null", { status: null });
+  assert.equal(await isCached(handler, "/status-null"), true);
+});
+
+test("redirects may only point at same-origin paths", async () => {
+  const { handler } = await createTestHandler();
+  for (const [i, location] of [
+    undefined,
+    "",
+    "https://evil.example/",
+    "http://localhost/new",
+    "//evil.example/new",
+    "/\\evil.example/new",
+    "javascript:alert(1)",
+    "new",
+    "/new page",
+    "/new\r\nSet-Cookie: a=b",
+    "/new\tpage",
+    `/${"a".repeat(2048)}`,
+    42,
+  ].entries()) {
+    const path = `/redirect-${i}`;
+    await capture(handler, path, { status: 301, location });
+    assert.equal(
+      await isCached(handler, path),
+      false,
+      JSON.stringify(location)?.slice(0, 40)
+    );
+  }
+  await capture(handler, "/redirect-ok", { status: 301, location: "/new" });
+  assert.equal(await isCached(handler, "/redirect-ok"), true);
+});
+
+test("a location without a redirect status is ignored", async () => {
+  const { handler } = await createTestHandler();
+  await capture(handler, "/page", { location: "/elsewhere" });
+  await capture(handler, "/missing", { status: 404, location: "/elsewhere" });
+  const page = await request(handler, "/page", { userAgent: BOT });
+  assert.equal(page.status, 200);
+  assert.equal(page.headers.get("Location"), null);
+  const missing = await request(handler, "/missing", { userAgent: BOT });
+  assert.equal(missing.status, 404);
+  assert.equal(missing.headers.get("Location"), null);
+});
+
+await run();
@@ -0,0 +1,87 @@
+// Captures need the token the shell was served with, for the same cache key
+import assert from "assert/strict";
+import {
+  BOT,
+  capture,
+  createTestHandler,
+  getCaptureToken,
+  request,
+  run,
+  test,
+} from "./helpers.js";
+
+async function isCached(handler, path) {
+  const html = await (await request(handler, path, { userAgent: BOT })).text();
+  return html.includes("Captured page");
+}
+
+test("shells for cacheable routes carry a capture token", async () => {
+  const { handler } = await createTestHandler();
+  assert.ok(await getCaptureToken(handler, "/about"));
+  assert.equal(await getCaptureToken(handler, "/api/users"), undefined);
+});
+
+test("a capture with the token for its path is cached", async () => {
+  const { handler } = await createTestHandler();
+  await capture(handler, "/about");
+  assert.ok(await isCached(handler, "/about"));
+});
+
+test("captures without a token are dropped", async () => {
+  const { handler } = await createTestHandler();
+  const response = await capture(handler, "/about", { token: null });
+  // The response does not tell the client the capture was dropped
+  assert.equal(response.status, 200);
+  assert.ok(!(await isCached(handler, "/about")));
+});
+
+test("a token for another path is rejected", async () => {
+  const { handler } = await createTestHandler();
+  const token = await getCaptureToken(handler, "/contact");
+  await capture(handler, "/about", { token });
+  assert.ok(!(await isCached(handler, "/about")));
+});
+
+test("tampered and expired tokens are rejected", async () => {
+  const { handler } = await createTestHandler();
+  const token = await getCaptureToken(handler, "/about");
+  const [expiry, signature] = token.split(".");
+  for (const forged of [
+    `${Number(expiry) + 1000}.${signature}`,
+    `${expiry}.${signature.slice(1)}x`,
+    signature,
+  ]) {
+    await capture(handler, "/about", { token: forged });
+    assert.ok(!(await isCached(handler, "/about")), forged);
+  }
+
+  const { handler: expiring } = await createTestHandler({
+    capture_token_ttl: 1,
+  });
+  const expired = await getCaptureToken(expiring, "/about");
+  await new Promise((resolve) => setTimeout(resolve, 1100));
+  await capture(expiring, "/about", { token: expired });
+  assert.ok(!(await isCached(expiring, "/about")));
+});
+
+test("tokens are bound to the query string in the cache key", async () => {
+  const { handler } = await createTestHandler({ cache_query_params: "keep" });
+  const token = await getCaptureToken(handler, "/products?page=1");
+  await capture(handler, "/products?page=2", { token });
+  assert.ok(!(await isCached(handler, "/products?page=2")));
+
+  await capture(handler, "/products?page=1", { token });
+  assert.ok(await isCached(handler, "/products?page=1"));
+});
+
+test("query params left out of the cache key don't affect the token", async () => {
+  const { handler } = await createTestHandler({
+    cache_query_params: "keep",
+    cache_drop_query_params: ["utm_*"],
+  });
+  const token = await getCaptureToken(handler, "/products?utm_source=mail");
+  await capture(handler, "/products?utm_source=feed", { token });
+  assert.ok(await isCached(handler, "/products"));
+});
+
+await run();
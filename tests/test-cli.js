@@ -0,0 +1,144 @@
+// The `sterad cache` commands against a cache a handler wrote, with and
+// without that handler serving
+import assert from "assert/strict";
+import { spawn } from "child_process";
+import { writeFileSync } from "fs";
+import { join } from "path";
+import { bunRuntime } from "../src/runtime-bun.ts";
+import {
+  BOT,
+  capture,
+  createTestHandler,
+  request,
+  run,
+  test,
+} from "./helpers.js";
+
+function writeConfigFile(spa_dist, lines = []) {
+  const configPath = join(spa_dist, "sterad.toml");
+  writeFileSync(
+    configPath,
+    [
+      `spa_dist = ${JSON.stringify(spa_dist)}`,
+      'cache_routes = ["/*"]',
+      ...lines,
+    ].join("\n")
+  );
+  return configPath;
+}
+
+async function sterad(configPath, args, env = process.env) {
+  const child = spawn(
+    process.execPath,
+    ["src/index.ts", ...args, "--config", configPath],
+    { env }
+  );
+  let stdout = "";
+  let stderr = "";
+  child.stdout.on("data", (chunk) => (stdout += chunk));
+  child.stderr.on("data", (chunk) => (stderr += chunk));
+  const timer = setTimeout(() => child.kill(), 10000);
+  const code = await new Promise((resolve) => child.on("exit", resolve));
+  clearTimeout(timer);
+  return { code, stdout, stderr };
+}
+
+let nextPort = 44000 + (process.pid % 1000) * 10;
+
+// A handler with a captured /docs page, served on a port the config names
+async function startServer({ listen = true } = {}) {
+  const { handler, spa_dist } = await createTestHandler();
+  await capture(handler, "/docs", { content: "<h1>Docs</h1><p>Text.</p>" });
+  const port = nextPort++;
+  const server = listen ? bunRuntime.serve({ port, fetch: handler }) : null;
+  return {
+    handler,
+    configPath: writeConfigFile(spa_dist, [`port = ${port}`]),
+    stop: () => server?.stop(),
+  };
+}
+
+async function botHtml(handler, path) {
+  return (await request(handler, path, { userAgent: BOT })).text();
+}
+
+test("cache show finds an entry by the URL a request would use", async () => {
+  const { handler, spa_dist } = await createTestHandler();
+  await capture(handler, "/a%20b", { content: "<h1>Spaced</h1><p>Text.</p>" });
+  assert.match(await botHtml(handler, "/a%20b"), /Spaced/);
+  const configPath = writeConfigFile(spa_dist);
+
+  for (const path of ["/a b", "/a%20b", "/a%20b?utm_source=x"]) {
+    const { code, stdout } = await sterad(configPath, ["cache", "show", path]);
+    assert.equal(code, 0, path);
+    assert.match(stdout, /"path": "\/a b"/, path);
+  }
+});
+
+test("cache show rejects paths that can't be decoded", async () => {
+  const { spa_dist } = await createTestHandler();
+  const { code, stderr } = await sterad(writeConfigFile(spa_dist), [
+    "cache",
+    "show",
+    "/%E0%A4%A",
+  ]);
+  assert.equal(code, 1);
+  assert.match(stderr, /Invalid path/);
+});
+
+test("cache purge goes through a running server", async () => {
+  const { handler, configPath, stop } = await startServer();
+  try {
+    assert.match(await botHtml(handler, "/docs"), /<h1>Docs<\/h1>/);
+    const { code, stdout } = await sterad(configPath, [
+      "cache",
+      "purge",
+      "/docs",
+    ]);
+    assert.equal(code, 0);
+    assert.match(stdout, /Purged 1 cache entries .* through the server/);
+    assert.doesNotMatch(await botHtml(handler, "/docs"), /<h1>Docs<\/h1>/);
+    assert.equal(
+      (await sterad(configPath, ["cache", "show", "/docs"])).code,
+      1
+    );
+  } finally {
+    await stop();
+  }
+});
+
+test("cache purge refuses without JWT_SECRET while a server runs", async () => {
+  const { handler, configPath, stop } = await startServer();
+  try {
+    const { JWT_SECRET, ...env } = process.env;
+    const { code, stderr } = await sterad(
+      configPath,
+      ["cache", "purge", "*"],
+      env
+    );
+    assert.equal(code, 1);
+    assert.match(stderr, /server is running/);
+    assert.match(await botHtml(handler, "/docs"), /<h1>Docs<\/h1>/);
+    assert.equal(
+      (await sterad(configPath, ["cache", "show", "/docs"])).code,
+      0
+    );
+  } finally {
+    await stop();
+  }
+});
+
+test("cache purge works on the files when no server runs", async () => {
+  const { configPath } = await startServer({ listen: false });
+  const { JWT_SECRET, ...env } = process.env;
+  const { code, stdout } = await sterad(
+    configPath,
+    ["cache", "purge", "/docs"],
+    env
+  );
+  assert.equal(code, 0);
+  assert.match(stdout, /Purged 1 cache entries matching \/docs$/m);
+  assert.equal((await sterad(configPath, ["cache", "show", "/docs"])).code, 1);
+});
+
+await run();
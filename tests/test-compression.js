@@ -0,0 +1,198 @@
+// Accept-Encoding negotiation end to end: compressed snapshots, pre-built
+// .br/.gz static assets, per-coding ETags and Vary
+import assert from "assert/strict";
+import {
+  brotliCompressSync,
+  brotliDecompressSync,
+  gunzipSync,
+  gzipSync,
+} from "zlib";
+import {
+  BOT,
+  capture,
+  createSpaDist,
+  createTestHandler,
+  request,
+  run,
+  test,
+} from "./helpers.js";
+
+const APP_JS = "console.log('app');";
+const EXTENSIONS = { br: ".br", gzip: ".gz" };
+// Over static_cache_max_file_bytes below, so it's streamed from disk
+const LARGE_JS = `console.log("${"x".repeat(4096)}");`;
+
+function decode(response, bytes) {
+  switch (response.headers.get("Content-Encoding")) {
+    case "br":
+      return brotliDecompressSync(bytes).toString("utf-8");
+    case "gzip":
+      return gunzipSync(bytes).toString("utf-8");
+    default:
+      return Buffer.from(bytes).toString("utf-8");
+  }
+}
+
+function botRequest(handler, path, acceptEncoding, headers = {}) {
+  return request(handler, path, {
+    userAgent: BOT,
+    headers:
+      acceptEncoding === null
+        ? headers
+        : { "Accept-Encoding": acceptEncoding, ...headers },
+  });
+}
+
+async function createCachedHandler() {
+  const { handler, spa_dist } = await createTestHandler();
+  await capture(handler, "/about", {
+    content: "<h1>About</h1><p>Compressed once when written.</p>",
+  });
+  return { handler, spa_dist };
+}
+
+test("snapshots are sent in the coding the client prefers", async () => {
+  const { handler, spa_dist } = await createCachedHandler();
+  const identity = await botRequest(handler, "/about", null);
+  const page = await identity.text();
+  assert.equal(identity.headers.get("Content-Encoding"), null);
+  assert.equal(identity.headers.get("Vary"), "Accept-Encoding");
+
+  // The first read after a restart comes from disk, the second from memory
+  const { handler: restarted } = await createTestHandler({ spa_dist });
+  for (let read = 0; read < 2; read++) {
+    for (const [acceptEncoding, coding] of [
+      ["gzip, deflate, br", "br"],
+      ["gzip", "gzip"],
+      ["x-gzip", "gzip"],
+    ]) {
+      const response = await botRequest(restarted, "/about", acceptEncoding);
+      assert.equal(response.headers.get("Content-Encoding"), coding);
+      assert.equal(response.headers.get("Vary"), "Accept-Encoding");
+      assert.equal(
+        response.headers.get("ETag"),
+        identity.headers.get("ETag").replace(/"$/, `-${coding}"`)
+      );
+      assert.equal(
+        decode(response, new Uint8Array(await response.arrayBuffer())),
+        page
+      );
+    }
+  }
+});
+
+test("q-values rank the codings and q=0 refuses one", async () => {
+  const { handler } = await createCachedHandler();
+  for (const [acceptEncoding, coding] of [
+    ["br;q=0.2, gzip;q=0.9", "gzip"],
+    ["br;q=0, gzip", "gzip"],
+    ["br;q=0, *", "gzip"],
+    ["*;q=0.5", "br"],
+    ["br;q=0, gzip;q=0", null],
+    ["*;q=0", null],
+    ["identity", null],
+    ["deflate", null],
+    ["", null],
+  ]) {
+    const response = await botRequest(handler, "/about", acceptEncoding);
+    assert.equal(
+      response.headers.get("Content-Encoding"),
+      coding,
+      acceptEncoding
+    );
+    // Refusing every coding falls back to the identity body
+    assert.match(
+      decode(response, new Uint8Array(await response.arrayBuffer())),
+      /<h1>About<\/h1>/
+    );
+  }
+});
+
+test("each coding revalidates against its own ETag", async () => {
+  const { handler } = await createCachedHandler();
+  const br = await botRequest(handler, "/about", "br");
+  const brEtag = br.headers.get("ETag");
+  const identityEtag = (await botRequest(handler, "/about", null)).headers.get(
+    "ETag"
+  );
+
+  const notModified = await botRequest(handler, "/about", "br", {
+    "If-None-Match": brEtag,
+  });
+  assert.equal(notModified.status, 304);
+  assert.equal(notModified.headers.get("ETag"), brEtag);
+  assert.equal(notModified.headers.get("Vary"), "Accept-Encoding");
+  assert.equal(notModified.headers.get("Content-Encoding"), null);
+  assert.equal(await notModified.text(), "");
+
+  // A validator for another representation doesn't match
+  for (const [acceptEncoding, ifNoneMatch] of [
+    ["br", identityEtag],
+    ["gzip", brEtag],
+    [null, brEtag],
+  ]) {
+    const response = await botRequest(handler, "/about", acceptEncoding, {
+      "If-None-Match": ifNoneMatch,
+    });
+    assert.equal(response.status, 200, `${acceptEncoding} ${ifNoneMatch}`);
+  }
+});
+
+test("pre-built .br and .gz files are sent for static assets", async () => {
+  const prebuilt = {
+    "assets/app.js.br": brotliCompressSync(APP_JS),
+    "assets/app.js.gz": gzipSync(APP_JS),
+    "assets/large.js": LARGE_JS,
+    "assets/large.js.gz": gzipSync(LARGE_JS),
+  };
+  const { handler } = await createTestHandler({
+    spa_dist: createSpaDist(prebuilt),
+    static_cache_max_file_bytes: 1024,
+  });
+
+  for (const [path, acceptEncoding, coding] of [
+    ["/assets/app.js", "br, gzip", "br"],
+    ["/assets/app.js", "gzip", "gzip"],
+    ["/assets/large.js", "br, gzip", "gzip"],
+  ]) {
+    // Twice, as the small asset is held in memory after the first request
+    for (let i = 0; i < 2; i++) {
+      const response = await request(handler, path, {
+        headers: { "Accept-Encoding": acceptEncoding },
+      });
+      const body = new Uint8Array(await response.arrayBuffer());
+      assert.equal(response.headers.get("Content-Encoding"), coding, path);
+      assert.equal(response.headers.get("Vary"), "Accept-Encoding");
+      assert.match(response.headers.get("ETag"), new RegExp(`-${coding}"$`));
+      assert.deepEqual(
+        body,
+        new Uint8Array(prebuilt[path.slice(1) + EXTENSIONS[coding]])
+      );
+
+      const revalidated = await request(handler, path, {
+        headers: {
+          "Accept-Encoding": acceptEncoding,
+          "If-None-Match": response.headers.get("ETag"),
+        },
+      });
+      assert.equal(revalidated.status, 304);
+    }
+  }
+
+  const identity = await request(handler, "/assets/large.js");
+  assert.equal(identity.headers.get("Content-Encoding"), null);
+  assert.equal(identity.headers.get("Vary"), "Accept-Encoding");
+  assert.equal(await identity.text(), LARGE_JS);
+});
+
+test("assets without pre-built files don't vary", async () => {
+  const { handler } = await createTestHandler();
+  const response = await request(handler, "/assets/app.js", {
+    headers: { "Accept-Encoding": "br, gzip" },
+  });
+  assert.equal(response.headers.get("Content-Encoding"), null);
+  assert.equal(response.headers.get("Vary"), null);
+  assert.equal(await response.text(), APP_JS);
+});
+
+await run();
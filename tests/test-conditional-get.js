@@ -0,0 +1,131 @@
+// ETag and Last-Modified validators, 304 responses and HEAD
+import assert from "assert/strict";
+import {
+  BOT,
+  capture,
+  createTestHandler,
+  request,
+  run,
+  test,
+} from "./helpers.js";
+
+// A handler with /about cached, and a fresh one on the same spa_dist whose
+// first request for it is a disk hit
+async function createCachedHandlers() {
+  const { handler, spa_dist } = await createTestHandler();
+  await capture(handler, "/about");
+  const { handler: restarted } = await createTestHandler({ spa_dist });
+  return { handler, restarted };
+}
+
+test("snapshots carry an ETag and Last-Modified", async () => {
+  const { handler } = await createCachedHandlers();
+  const response = await request(handler, "/about", { userAgent: BOT });
+  assert.match(response.headers.get("ETag"), /^"[0-9a-f]{64}"$/);
+  assert.ok(!Number.isNaN(Date.parse(response.headers.get("Last-Modified"))));
+});
+
+test("a matching If-None-Match gets a bodiless 304", async () => {
+  const { handler } = await createCachedHandlers();
+  const first = await request(handler, "/about", { userAgent: BOT });
+  const etag = first.headers.get("ETag");
+
+  const response = await request(handler, "/about", {
+    userAgent: BOT,
+    headers: { "If-None-Match": `"other", ${etag}` },
+  });
+  assert.equal(response.status, 304);
+  assert.equal(await response.text(), "");
+  assert.equal(response.headers.get("ETag"), etag);
+  assert.equal(response.headers.get("Content-Type"), null);
+});
+
+test("If-None-Match takes precedence over If-Modified-Since", async () => {
+  const { handler } = await createCachedHandlers();
+  const response = await request(handler, "/about", {
+    userAgent: BOT,
+    headers: {
+      "If-None-Match": '"stale"',
+      "If-Modified-Since": new Date(Date.now() + 60000).toUTCString(),
+    },
+  });
+  assert.equal(response.status, 200);
+});
+
+test("If-Modified-Since revalidates against Last-Modified", async () => {
+  const { handler } = await createCachedHandlers();
+  const first = await request(handler, "/about", { userAgent: BOT });
+  const lastModified = first.headers.get("Last-Modified");
+
+  const current = await request(handler, "/about", {
+    userAgent: BOT,
+    headers: { "If-Modified-Since": lastModified },
+  });
+  assert.equal(current.status, 304);
+
+  const outdated = await request(handler, "/about", {
+    userAgent: BOT,
+    headers: {
+      "If-Modified-Since": new Date(
+        Date.parse(lastModified) - 60000
+      ).toUTCString(),
+    },
+  });
+  assert.equal(outdated.status, 200);
+});
+
+test("static assets revalidate too", async () => {
+  const { handler } = await createTestHandler();
+  const first = await request(handler, "/assets/app.js");
+  assert.equal(first.status, 200);
+  const response = await request(handler, "/assets/app.js", {
+    headers: { "If-None-Match": first.headers.get("ETag") },
+  });
+  assert.equal(response.status, 304);
+});
+
+test("snapshots with a declared status are never revalidated", async () => {
+  const { handler } = await createTestHandler();
+  await capture(handler, "/gone", { status: 404 });
+  const first = await request(handler, "/gone", { userAgent: BOT });
+  assert.equal(first.status, 404);
+  const response = await request(handler, "/gone", {
+    userAgent: BOT,
+    headers: { "If-None-Match": first.headers.get("ETag") },
+  });
+  assert.equal(response.status, 404);
+});
+
+test("memory and disk hits send the same headers", async () => {
+  const { restarted } = await createCachedHandlers();
+  const fromDisk = await request(restarted, "/about", { userAgent: BOT });
+  const fromMemory = await request(restarted, "/about", { userAgent: BOT });
+  assert.equal(fromDisk.status, 200);
+  assert.match(fromDisk.headers.get("Cache-Control"), /max-age=3600/);
+  assert.deepEqual(
+    Object.fromEntries(fromDisk.headers),
+    Object.fromEntries(fromMemory.headers)
+  );
+});
+
+test("HEAD gets the GET headers and no body", async () => {
+  const { handler } = await createCachedHandlers();
+  for (const [path, userAgent] of [
+    ["/about", BOT],
+    ["/about", undefined],
+    ["/assets/app.js", undefined],
+    ["/missing.js", undefined],
+  ]) {
+    const get = await request(handler, path, { userAgent });
+    const head = await request(handler, path, { method: "HEAD", userAgent });
+    assert.equal(head.status, get.status, path);
+    assert.equal(head.body, null, path);
+    assert.equal(
+      head.headers.get("Content-Type"),
+      get.headers.get("Content-Type"),
+      path
+    );
+  }
+});
+
+await run();
@@ -0,0 +1,106 @@
+// X-Sterad-* diagnostics headers and the ?__sterad_debug=1 parameter
+import assert from "assert/strict";
+import {
+  adminAuthorization,
+  BOT,
+  capture,
+  createTestHandler,
+  getCaptureToken,
+  request,
+  run,
+  test,
+} from "./helpers.js";
+
+function diagnostics(response) {
+  return Object.fromEntries(
+    [...response.headers].filter(([name]) => name.startsWith("x-sterad-"))
+  );
+}
+
+test("debug_headers describes how each page was served", async () => {
+  const { handler } = await createTestHandler({ debug_headers: true });
+
+  const human = diagnostics(await request(handler, "/about"));
+  assert.deepEqual(human, {
+    "x-sterad-bot": "false",
+    "x-sterad-cache": "BYPASS-HUMAN",
+    "x-sterad-cache-key": "/about",
+    "x-sterad-route": 'cache_routes "/*"',
+  });
+  const miss = diagnostics(
+    await request(handler, "/about", { userAgent: BOT })
+  );
+  assert.equal(miss["x-sterad-cache"], "MISS-CAPTURE");
+  assert.equal(miss["x-sterad-bot"], "true");
+
+  // Captures go to disk; the first read loads them into memory
+  await capture(handler, "/about");
+  const diskHit = diagnostics(
+    await request(handler, "/about", { userAgent: BOT })
+  );
+  assert.equal(diskHit["x-sterad-cache"], "HIT-DISK");
+  assert.equal(diskHit["x-sterad-stale"], "false");
+  assert.ok(!Number.isNaN(Date.parse(diskHit["x-sterad-captured-at"])));
+  const memoryHit = diagnostics(
+    await request(handler, "/about", { userAgent: BOT })
+  );
+  assert.equal(memoryHit["x-sterad-cache"], "HIT-MEMORY");
+  assert.equal(
+    memoryHit["x-sterad-captured-at"],
+    diskHit["x-sterad-captured-at"]
+  );
+
+  const excluded = diagnostics(await request(handler, "/api/users"));
+  assert.equal(excluded["x-sterad-cache"], "BYPASS-ROUTE");
+  assert.equal(excluded["x-sterad-route"], 'not_cache_routes "/api/*"');
+
+  const asset = diagnostics(await request(handler, "/assets/app.js"));
+  assert.equal(asset["x-sterad-cache"], "STATIC");
+});
+
+test("no diagnostics without debug_headers", async () => {
+  const { handler } = await createTestHandler();
+  assert.deepEqual(diagnostics(await request(handler, "/about")), {});
+});
+
+test("?__sterad_debug=1 needs a token with the read scope", async () => {
+  const { handler } = await createTestHandler();
+  const path = "/about?__sterad_debug=1";
+  assert.deepEqual(diagnostics(await request(handler, path)), {});
+  assert.deepEqual(
+    diagnostics(
+      await request(handler, path, {
+        headers: await adminAuthorization(["purge"]),
+      })
+    ),
+    {}
+  );
+
+  const response = await request(handler, path, {
+    headers: await adminAuthorization(["read"]),
+  });
+  assert.equal(response.headers.get("X-Sterad-Cache"), "BYPASS-HUMAN");
+  assert.equal(response.headers.get("X-Sterad-Cache-Key"), "/about");
+});
+
+test("the debug parameter is never part of a cache key", async () => {
+  const { handler } = await createTestHandler({
+    cache_query_params: "keep",
+    debug_headers: true,
+  });
+  const path = "/search?q=shoes&__sterad_debug=1";
+  const response = await request(handler, path);
+  assert.equal(response.headers.get("X-Sterad-Cache-Key"), "/search?q=shoes");
+
+  // The inject script posts location.pathname + location.search back
+  await capture(handler, path, {
+    content: "<h1>Shoes</h1><p>Results for shoes.</p>",
+    token: await getCaptureToken(handler, path),
+  });
+  const html = await (
+    await request(handler, "/search?q=shoes", { userAgent: BOT })
+  ).text();
+  assert.match(html, /<h1>Shoes<\/h1>/);
+});
+
+await run();
@@ -0,0 +1,130 @@
+// Disk cache budgets: LRU eviction by entries and bytes, access times that
+// survive restarts and how evictions are reported
+import assert from "assert/strict";
+import { createHash } from "crypto";
+import { existsSync, statSync } from "fs";
+import { join } from "path";
+import {
+  BOT,
+  capture,
+  createSpaDist,
+  createTestHandler,
+  request,
+  run,
+  test,
+} from "./helpers.js";
+
+function entryFilePath(spa_dist, cacheKey) {
+  const hash = createHash("sha256").update(cacheKey).digest("hex");
+  return join(spa_dist, ".sterad__cache", hash.slice(0, 2), `${hash}.html`);
+}
+
+function cachedPaths(spa_dist, paths) {
+  return paths.filter((path) => existsSync(entryFilePath(spa_dist, path)));
+}
+
+// Captured a few ms apart so access times are distinct
+async function captureAll(handler, paths) {
+  for (const path of paths) {
+    await capture(handler, path);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+function botRead(handler, path) {
+  return request(handler, path, { userAgent: BOT });
+}
+
+test("the entry budget evicts the least recently used entry", async () => {
+  const { handler, spa_dist } = await createTestHandler({
+    max_disk_cache_entries: 2,
+  });
+  await captureAll(handler, ["/a", "/b"]);
+  // Reading /a makes /b the least recently used
+  await botRead(handler, "/a");
+  await captureAll(handler, ["/c"]);
+
+  assert.deepEqual(cachedPaths(spa_dist, ["/a", "/b", "/c"]), ["/a", "/c"]);
+  assert.match(await (await botRead(handler, "/a")).text(), /Captured page/);
+  assert.doesNotMatch(
+    await (await botRead(handler, "/b")).text(),
+    /Captured page/
+  );
+});
+
+test("the byte budget counts every file of an entry", async () => {
+  const { handler: measure, spa_dist: measured } = await createTestHandler();
+  await capture(measure, "/a");
+  const entryBytes = (await measure.stats()).disk.bytes;
+  // The sidecar and the compressed variants count too
+  assert.ok(entryBytes > statSync(entryFilePath(measured, "/a")).size * 2);
+
+  const maxBytes = Math.floor(entryBytes * 2.5);
+  const { handler, spa_dist } = await createTestHandler({
+    max_disk_cache_bytes: maxBytes,
+  });
+  await captureAll(handler, ["/a", "/b", "/c"]);
+
+  assert.deepEqual(cachedPaths(spa_dist, ["/a", "/b", "/c"]), ["/b", "/c"]);
+  const { disk } = await handler.stats();
+  assert.equal(disk.entries, 2);
+  assert.ok(disk.bytes <= maxBytes, `${disk.bytes} > ${maxBytes}`);
+  assert.equal(disk.maxBytes, maxBytes);
+});
+
+test("access times survive a restart", async () => {
+  const spa_dist = createSpaDist();
+  const { handler } = await createTestHandler({
+    spa_dist,
+    disk_cache_sweep_interval: 0.05,
+  });
+  await captureAll(handler, ["/a", "/b", "/c"]);
+  await botRead(handler, "/a");
+  // Let the sweep write the access back to the file
+  await new Promise((resolve) => setTimeout(resolve, 200));
+  await handler.close();
+
+  // Over budget at startup, so the least recently used entry goes right away
+  const { handler: restarted } = await createTestHandler({
+    spa_dist,
+    max_disk_cache_entries: 2,
+  });
+  assert.deepEqual(cachedPaths(spa_dist, ["/a", "/b", "/c"]), ["/a", "/c"]);
+  assert.equal((await restarted.stats()).disk.entries, 2);
+});
+
+test("without budgets nothing is evicted", async () => {
+  const { handler, spa_dist } = await createTestHandler();
+  const paths = ["/a", "/b", "/c", "/d", "/e"];
+  await captureAll(handler, paths);
+  assert.deepEqual(cachedPaths(spa_dist, paths), paths);
+  const { disk } = await handler.stats();
+  assert.equal(disk.maxEntries, null);
+  assert.equal(disk.evictions, 0);
+  assert.equal(disk.lastEvictedAt, null);
+});
+
+test("evicted pages are reported until they are captured again", async () => {
+  const { handler } = await createTestHandler({ max_disk_cache_entries: 1 });
+  const cacheInfo = async (path) =>
+    (await request(handler, `/__sterad_cache_info?path=${path}`)).json();
+
+  const before = Date.now();
+  await captureAll(handler, ["/a", "/b"]);
+  const evicted = await cacheInfo("/a");
+  assert.equal(evicted.cached, false);
+  assert.ok(Date.parse(evicted.evictedAt) >= before, evicted.evictedAt);
+  assert.equal((await cacheInfo("/never")).evictedAt, null);
+
+  const { disk } = await handler.stats();
+  assert.equal(disk.evictions, 1);
+  assert.equal(disk.lastEvictedAt, evicted.evictedAt);
+
+  await capture(handler, "/a");
+  const recaptured = await cacheInfo("/a");
+  assert.equal(recaptured.cached, true);
+  assert.equal(recaptured.evictedAt, undefined);
+  assert.equal((await cacheInfo("/b")).cached, false);
+});
+
+await run();
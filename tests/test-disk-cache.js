@@ -0,0 +1,190 @@
+// Disk cache layout: hashed entry files and the move from the old flattened
+// file names
+import assert from "assert/strict";
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import {
+  BOT,
+  capture,
+  createSpaDist,
+  createTestHandler,
+  request,
+  run,
+  test,
+} from "./helpers.js";
+
+function entryFilePath(spa_dist, cacheKey) {
+  const hash = createHash("sha256").update(cacheKey).digest("hex");
+  return join(spa_dist, ".sterad__cache", hash.slice(0, 2), `${hash}.html`);
+}
+
+// An entry as written before the hashed layout: "/a/b" in a_b.html
+function writeLegacyEntry(spa_dist, name, meta, content) {
+  const cacheDir = join(spa_dist, ".sterad__cache");
+  mkdirSync(cacheDir, { recursive: true });
+  writeFileSync(join(cacheDir, `${name}.html`), content);
+  if (meta) {
+    writeFileSync(
+      join(cacheDir, `${name}.meta.json`),
+      JSON.stringify({
+        format: "fragment",
+        capturedAt: Date.now(),
+        contentHash: "legacy",
+        title: "Legacy",
+        size: content.length,
+        source: { userAgent: "human", manual: false },
+        shellFingerprint: "legacy",
+        ...meta,
+      })
+    );
+  }
+}
+
+async function botHtml(handler, path) {
+  return (await request(handler, path, { userAgent: BOT })).text();
+}
+
+// Collects warnings while fn runs; the helpers mute them otherwise
+async function collectWarnings(fn) {
+  const warnings = [];
+  const warn = console.warn;
+  console.warn = (...args) => warnings.push(args.join(" "));
+  try {
+    await fn();
+  } finally {
+    console.warn = warn;
+  }
+  return warnings;
+}
+
+test("entries are stored under a hash of the cache key", async () => {
+  const { handler, spa_dist } = await createTestHandler();
+  await capture(handler, "/a/b");
+  await capture(handler, "/a_b");
+  assert.ok(existsSync(entryFilePath(spa_dist, "/a/b")));
+  assert.ok(existsSync(entryFilePath(spa_dist, "/a_b")));
+  assert.match(await botHtml(handler, "/a/b"), /Captured page/);
+});
+
+test("keys that would look like traversal as file paths are cached", async () => {
+  const { handler, spa_dist } = await createTestHandler();
+  await capture(handler, "/docs/v1..2", {
+    content: "<h1>Range</h1><p>Text.</p>",
+  });
+  assert.ok(existsSync(entryFilePath(spa_dist, "/docs/v1..2")));
+  assert.match(await botHtml(handler, "/docs/v1..2"), /<h1>Range<\/h1>/);
+});
+
+test("legacy entries with metadata move into the hashed layout", async () => {
+  const spa_dist = createSpaDist();
+  writeLegacyEntry(spa_dist, "a_b", { path: "/a/b" }, "<p>Legacy page</p>");
+  const { handler } = await createTestHandler({ spa_dist });
+
+  assert.ok(existsSync(entryFilePath(spa_dist, "/a/b")));
+  assert.ok(!existsSync(join(spa_dist, ".sterad__cache", "a_b.html")));
+  assert.ok(!existsSync(join(spa_dist, ".sterad__cache", "a_b.meta.json")));
+  assert.match(await botHtml(handler, "/a/b"), /Legacy page/);
+});
+
+test("of legacy entries for the same key the newest is kept", async () => {
+  const spa_dist = createSpaDist();
+  writeLegacyEntry(
+    spa_dist,
+    "old",
+    { path: "/about", capturedAt: Date.now() - 60000 },
+    "<p>Old capture</p>"
+  );
+  writeLegacyEntry(spa_dist, "new", { path: "/about" }, "<p>New capture</p>");
+  const { handler } = await createTestHandler({ spa_dist });
+
+  assert.match(await botHtml(handler, "/about"), /New capture/);
+  assert.deepEqual(
+    readdirSync(join(spa_dist, ".sterad__cache")).filter((name) =>
+      name.endsWith(".html")
+    ),
+    []
+  );
+});
+
+// A page as the first Sterad versions cached it: the whole composed document
+function legacyDocument(title, root) {
+  return `<!DOCTYPE html><html><head><title>${title}</title></head><body><div id="root">${root}</div><script src="/assets/old-1a2b.js"></script></body></html>`;
+}
+
+test("legacy whole documents become fragment entries", async () => {
+  const spa_dist = createSpaDist();
+  writeLegacyEntry(
+    spa_dist,
+    "pricing",
+    null,
+    legacyDocument(
+      "Pricing &amp; plans",
+      "<div><h1>Pricing</h1><p>Old pricing</p></div><p>Billed yearly.</p>"
+    )
+  );
+  writeLegacyEntry(
+    spa_dist,
+    "index",
+    { path: "/", format: undefined },
+    legacyDocument("Home", "<h1>Home</h1><p>Welcome.</p>")
+  );
+
+  const { handler } = await createTestHandler({ spa_dist });
+  const cacheDir = join(spa_dist, ".sterad__cache");
+  assert.deepEqual(
+    readdirSync(cacheDir).filter((name) => name.includes(".")),
+    []
+  );
+  assert.ok(existsSync(entryFilePath(spa_dist, "/")));
+
+  const html = await botHtml(handler, "/pricing");
+  assert.match(
+    html,
+    /<div id="root"><div><h1>Pricing<\/h1><p>Old pricing<\/p><\/div><p>Billed yearly.<\/p><\/div>/
+  );
+  assert.match(html, /<title>Pricing &amp; plans<\/title>/);
+  // The page is rebuilt from the current shell, not the old bundles
+  assert.doesNotMatch(html, /old-1a2b\.js/);
+});
+
+test("legacy whole documents that can't be recovered are removed once", async () => {
+  const spa_dist = createSpaDist();
+  // "/a/b" or "/a_b"
+  writeLegacyEntry(
+    spa_dist,
+    "a_b",
+    null,
+    legacyDocument("Ambiguous", "<h1>A</h1><p>B.</p>")
+  );
+  writeLegacyEntry(
+    spa_dist,
+    "broken",
+    null,
+    '<!DOCTYPE html><html><body><div id="root"><p>Unclosed'
+  );
+
+  const warnings = await collectWarnings(() => createTestHandler({ spa_dist }));
+  assert.ok(
+    warnings.some((warning) => /Removed 2 cache files/.test(warning)),
+    warnings.join("\n")
+  );
+  assert.deepEqual(readdirSync(join(spa_dist, ".sterad__cache")), []);
+
+  const restart = await collectWarnings(() => createTestHandler({ spa_dist }));
+  assert.ok(
+    !restart.some((warning) => /older Sterad version/.test(warning)),
+    restart.join("\n")
+  );
+});
+
+test("sidecars without their HTML file are removed", async () => {
+  const spa_dist = createSpaDist();
+  const cacheDir = join(spa_dist, ".sterad__cache");
+  mkdirSync(cacheDir, { recursive: true });
+  writeFileSync(join(cacheDir, "gone.meta.json"), "{}");
+  await createTestHandler({ spa_dist });
+  assert.ok(!existsSync(join(cacheDir, "gone.meta.json")));
+});
+
+await run();
@@ -0,0 +1,230 @@
+// Captured head metadata: validation of the untrusted payload and how it
+// replaces the shell's tags in the snapshot
+import assert from "assert/strict";
+import { applyCapturedHead, validateCapturedHead } from "../src/head.ts";
+import {
+  BOT,
+  capture,
+  createSpaDist,
+  createTestHandler,
+  request,
+  run,
+  test,
+} from "./helpers.js";
+
+const HOST = "example.com";
+
+const SHELL_WITH_HEAD = `<!DOCTYPE html>
+<html>
+<head>
+  <title>App</title>
+  <meta name="description" content="The app">
+  <meta property="og:title" content="App">
+  <meta name="viewport" content="width=device-width">
+  <link rel="canonical" href="https://example.com/">
+  <script type="application/ld+json">{"@type":"WebSite"}</script>
+</head>
+<body><div id="root"></div><script src="/assets/app.js"></script></body>
+</html>`;
+
+function rejection(head) {
+  const { head: validated, reason } = validateCapturedHead(head, HOST);
+  assert.equal(validated, null, JSON.stringify(head));
+  return reason;
+}
+
+test("a missing head is an empty one", () => {
+  for (const head of [undefined, null]) {
+    assert.deepEqual(validateCapturedHead(head, HOST).head, {
+      meta: [],
+      canonical: null,
+      jsonLd: [],
+    });
+  }
+});
+
+test("meta tags are limited to the allowed keys and attributes", () => {
+  const { head } = validateCapturedHead(
+    {
+      meta: [
+        { name: "Description", content: "First" },
+        { property: "og:title", content: "About" },
+        { name: "twitter:card", content: "summary" },
+        // Later tags win
+        { name: "description", content: "About us" },
+      ],
+    },
+    HOST
+  );
+  assert.deepEqual(head.meta, [
+    { property: "og:title", content: "About" },
+    { name: "twitter:card", content: "summary" },
+    { name: "description", content: "About us" },
+  ]);
+
+  assert.match(
+    rejection({ meta: [{ name: "viewport", content: "x" }] }),
+    /Disallowed meta tag/
+  );
+  assert.match(
+    rejection({ meta: [{ "http-equiv": "refresh", content: "0;url=/x" }] }),
+    /Disallowed attribute "http-equiv"/
+  );
+  assert.match(
+    rejection({
+      meta: [{ name: "description", property: "og:title", content: "x" }],
+    }),
+    /exactly one of name or property/
+  );
+  rejection({ meta: [{ name: "description", content: 42 }] });
+  rejection({ meta: "description" });
+});
+
+test("URL metas must be http(s), and page URLs must stay on the site", () => {
+  const { head } = validateCapturedHead(
+    {
+      canonical: "https://example.com/about",
+      meta: [
+        { property: "og:url", content: "/about" },
+        // Media may come from a CDN
+        { property: "og:image", content: "https://cdn.example.net/a.png" },
+      ],
+    },
+    HOST
+  );
+  assert.equal(head.canonical, "https://example.com/about");
+  assert.equal(head.meta.length, 2);
+
+  for (const content of [
+    "javascript:alert(1)",
+    " JavaScript:alert(1)",
+    "data:image/png;base64,AAAA",
+  ]) {
+    assert.match(
+      rejection({ meta: [{ property: "og:image", content }] }),
+      /must be an http\(s\) URL/
+    );
+    rejection({ canonical: content });
+  }
+  for (const url of [
+    "https://evil.example/about",
+    "//evil.example/about",
+    "https://example.com.evil.example/",
+    "https://example.com:8443/about",
+  ]) {
+    assert.match(rejection({ canonical: url }), /on example\.com/, url);
+    assert.match(
+      rejection({ meta: [{ property: "og:url", content: url }] }),
+      /must point at example\.com/,
+      url
+    );
+  }
+});
+
+test("JSON-LD must be JSON and can't close its script element", () => {
+  const { head } = validateCapturedHead(
+    { jsonLd: ['{ "name": "a < b", "@type": "Thing" }'] },
+    HOST
+  );
+  // Re-serialized, with "<" escaped so no markup reaches the page
+  assert.deepEqual(head.jsonLd, ['{"name":"a \\u003c b","@type":"Thing"}']);
+  assert.deepEqual(JSON.parse(head.jsonLd[0]), {
+    name: "a < b",
+    "@type": "Thing",
+  });
+
+  for (const block of [
+    '{"name": "</script><script>alert(1)</script>"}',
+    '{"name": "</SCRIPT >"}',
+    '{"name": "<!--"}',
+    "{name: 1}",
+    42,
+  ]) {
+    assert.match(rejection({ jsonLd: [block] }), /JSON-LD/, String(block));
+  }
+});
+
+test("applyCapturedHead replaces the shell's matching tags", () => {
+  const { head } = validateCapturedHead(
+    {
+      meta: [
+        { name: "description", content: 'About "us" & <friends>' },
+        { property: "og:title", content: "About" },
+      ],
+      canonical: "https://example.com/about",
+      jsonLd: ['{"@type":"AboutPage"}'],
+    },
+    HOST
+  );
+  const html = applyCapturedHead(SHELL_WITH_HEAD, head);
+
+  assert.equal(html.match(/name="description"/g).length, 1);
+  assert.match(
+    html,
+    /<meta name="description" content="About &quot;us&quot; &amp; &lt;friends&gt;">/
+  );
+  assert.equal(html.match(/property="og:title"/g).length, 1);
+  assert.match(html, /<meta property="og:title" content="About">/);
+  assert.match(
+    html,
+    /<link rel="canonical" href="https:\/\/example\.com\/about">/
+  );
+  assert.doesNotMatch(html, /href="https:\/\/example\.com\/"/);
+  assert.match(html, /\{"@type":"AboutPage"\}/);
+  assert.doesNotMatch(html, /WebSite/);
+  // Tags the capture didn't mention are kept
+  assert.match(html, /<meta name="viewport"/);
+  assert.match(html, /<title>App<\/title>/);
+  assert.ok(html.indexOf("AboutPage") < html.indexOf("</head>"));
+  assert.ok(
+    html.endsWith(SHELL_WITH_HEAD.slice(SHELL_WITH_HEAD.indexOf("</head>")))
+  );
+});
+
+test("applyCapturedHead keeps shell tags the capture has no replacement for", () => {
+  const { head } = validateCapturedHead(
+    { meta: [{ name: "description", content: "About" }] },
+    HOST
+  );
+  const html = applyCapturedHead(SHELL_WITH_HEAD, head);
+  assert.match(html, /<link rel="canonical" href="https:\/\/example\.com\/">/);
+  assert.match(html, /WebSite/);
+  assert.match(html, /property="og:title" content="App"/);
+
+  // A shell without a head is left alone
+  assert.equal(applyCapturedHead("<p>Hi</p>", head), "<p>Hi</p>");
+});
+
+test("bots get the captured head; invalid heads aren't cached", async () => {
+  const { handler } = await createTestHandler({
+    spa_dist: createSpaDist({ "index.html": SHELL_WITH_HEAD }),
+  });
+  await capture(handler, "/about", {
+    head: {
+      meta: [{ name: "description", content: "About us" }],
+      canonical: "http://localhost/about",
+    },
+  });
+  const snapshot = await (
+    await request(handler, "/about", { userAgent: BOT })
+  ).text();
+  assert.match(snapshot, /Captured page/);
+  assert.match(snapshot, /<meta name="description" content="About us">/);
+  assert.match(
+    snapshot,
+    /<link rel="canonical" href="http:\/\/localhost\/about">/
+  );
+  assert.doesNotMatch(snapshot, /content="The app"/);
+
+  const rejected = await capture(handler, "/pricing", {
+    head: { canonical: "https://evil.example/pricing" },
+  });
+  // Rejections look like successes to the client
+  assert.equal(rejected.status, 200);
+  assert.doesNotMatch(
+    await (await request(handler, "/pricing", { userAgent: BOT })).text(),
+    /Captured page/
+  );
+});
+
+await run();
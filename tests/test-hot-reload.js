@@ -0,0 +1,129 @@
+// Reloading sterad.toml and the SPA shell without a restart
+import assert from "assert/strict";
+import { spawn } from "child_process";
+import { writeFileSync } from "fs";
+import { join } from "path";
+import { loadConfigFile } from "../src/config.ts";
+import {
+  adminAuthorization,
+  createSpaDist,
+  createTestHandler,
+  request,
+  run,
+  SHELL,
+  test,
+} from "./helpers.js";
+
+async function pageHtml(handler, path = "/") {
+  return (await request(handler, path)).text();
+}
+
+// Watchers debounce changes, so poll until the reload shows
+async function eventually(check, timeout = 3000) {
+  const deadline = Date.now() + timeout;
+  while (!(await check())) {
+    if (Date.now() > deadline) {
+      assert.fail("timed out waiting for the reload");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+function writeShell(spa_dist, title) {
+  writeFileSync(
+    join(spa_dist, "index.html"),
+    SHELL.replace("<title>App</title>", `<title>${title}</title>`)
+  );
+}
+
+function writeConfigFile(spa_dist, lines) {
+  const configPath = join(spa_dist, "sterad.toml");
+  writeFileSync(
+    configPath,
+    [`spa_dist = ${JSON.stringify(spa_dist)}`, ...lines].join("\n")
+  );
+  return configPath;
+}
+
+test("handlers from a config object don't keep the process running", async () => {
+  const child = spawn(process.execPath, ["tests/fixtures/embed-and-exit.js"], {
+    stdio: "ignore",
+  });
+  const timer = setTimeout(() => child.kill(), 5000);
+  const code = await new Promise((resolve) => child.on("exit", resolve));
+  clearTimeout(timer);
+  assert.equal(code, 0, "process did not exit on its own");
+});
+
+test("hot_reload picks up a new index.html", async () => {
+  const { handler, spa_dist } = await createTestHandler({ hot_reload: true });
+  writeShell(spa_dist, "Deployed");
+  await eventually(async () => /Deployed/.test(await pageHtml(handler)));
+});
+
+test("handlers created from a config file watch it", async () => {
+  const spa_dist = createSpaDist();
+  const configPath = writeConfigFile(spa_dist, ['cache_routes = ["/*"]']);
+  const { handler } = await createTestHandler(
+    await loadConfigFile(configPath),
+    { configPath }
+  );
+  assert.match(
+    await pageHtml(handler, "/docs"),
+    /<meta name="sterad-capture-token"/
+  );
+
+  writeConfigFile(spa_dist, [
+    'cache_routes = ["/*"]',
+    'not_cache_routes = ["/docs"]',
+  ]);
+  await eventually(
+    async () =>
+      !/<meta name="sterad-capture-token"/.test(
+        await pageHtml(handler, "/docs")
+      )
+  );
+});
+
+test("an invalid config leaves the running one in place", async () => {
+  const { handler } = await createTestHandler();
+  await assert.rejects(handler.reload({ spa_dist: "/nowhere" }));
+  assert.match(
+    await pageHtml(handler, "/docs"),
+    /<meta name="sterad-capture-token"/
+  );
+});
+
+test("reload(config) swaps in a new config", async () => {
+  const { handler, spa_dist } = await createTestHandler();
+  await handler.reload({
+    spa_dist,
+    cache_routes: ["/*"],
+    not_cache_routes: ["/docs"],
+  });
+  assert.doesNotMatch(
+    await pageHtml(handler, "/docs"),
+    /<meta name="sterad-capture-token"/
+  );
+});
+
+test("the admin API reloads the shell", async () => {
+  const { handler, spa_dist } = await createTestHandler();
+  writeShell(spa_dist, "Deployed");
+  assert.doesNotMatch(await pageHtml(handler), /Deployed/);
+
+  const unauthorized = await request(handler, "/__sterad_admin/reload", {
+    method: "POST",
+    headers: await adminAuthorization(["read"]),
+  });
+  assert.equal(unauthorized.status, 401);
+
+  const response = await request(handler, "/__sterad_admin/reload", {
+    method: "POST",
+    headers: await adminAuthorization(["reload"]),
+  });
+  assert.equal(response.status, 200);
+  assert.match(await pageHtml(handler), /Deployed/);
+});
+
+await run();
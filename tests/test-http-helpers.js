@@ -0,0 +1,98 @@
+// The pure helpers behind the handler: content negotiation, entity tag
+// matching, client addresses and page composition
+import assert from "assert/strict";
+import {
+  composePage,
+  extractRootFragment,
+  findSpaRootElementRegex,
+} from "../src/compose.ts";
+import {
+  getClientIp,
+  getEncodedEtag,
+  matchesEtag,
+  negotiateEncoding,
+} from "../src/http.ts";
+import { clientAddress, run, SHELL, test } from "./helpers.js";
+
+const BOTH = ["br", "gzip"];
+
+test("negotiateEncoding prefers brotli when both are accepted", () => {
+  assert.equal(negotiateEncoding("gzip, deflate, br", BOTH), "br");
+  assert.equal(negotiateEncoding("gzip", BOTH), "gzip");
+  assert.equal(negotiateEncoding("x-gzip", BOTH), "gzip");
+  assert.equal(negotiateEncoding("br", ["gzip"]), null);
+  assert.equal(negotiateEncoding(null, BOTH), null);
+});
+
+test("negotiateEncoding honours q-values", () => {
+  assert.equal(negotiateEncoding("br;q=0.5, gzip;q=0.8", BOTH), "gzip");
+  assert.equal(negotiateEncoding("br;q=0, gzip", BOTH), "gzip");
+  assert.equal(negotiateEncoding("*;q=0.1", BOTH), "br");
+  assert.equal(negotiateEncoding("br;q=0, *", BOTH), "gzip");
+  assert.equal(negotiateEncoding("br;q=0, gzip;q=0", BOTH), null);
+  assert.equal(negotiateEncoding("gzip;q=abc", BOTH), null);
+});
+
+test("getEncodedEtag gives each coding its own validator", () => {
+  assert.equal(getEncodedEtag('"abc"', "br"), '"abc-br"');
+  assert.equal(getEncodedEtag('"abc"', "gzip"), '"abc-gzip"');
+});
+
+test("matchesEtag uses the weak comparison", () => {
+  assert.ok(matchesEtag('"a"', '"a"'));
+  assert.ok(matchesEtag('W/"a"', '"a"'));
+  assert.ok(matchesEtag('"x", "a"', '"a"'));
+  assert.ok(matchesEtag("*", '"a"'));
+  assert.ok(!matchesEtag('"b"', '"a"'));
+  assert.ok(!matchesEtag('"a-br"', '"a"'));
+});
+
+test("getClientIp reads X-Forwarded-For only with trusted hops", () => {
+  const request = new Request("http://localhost/", {
+    headers: { "X-Forwarded-For": "1.1.1.1, 2.2.2.2, 3.3.3.3" },
+  });
+  const server = clientAddress("10.0.0.1");
+  assert.equal(getClientIp(request, server), "10.0.0.1");
+  assert.equal(getClientIp(request, server, 1), "3.3.3.3");
+  assert.equal(getClientIp(request, server, 2), "2.2.2.2");
+  assert.equal(getClientIp(request, server, 5), "10.0.0.1");
+  assert.equal(getClientIp(request), "unknown");
+});
+
+test("composePage fills the root element and the title", () => {
+  const regex = findSpaRootElementRegex(SHELL);
+  const html = composePage(SHELL, regex, "<h1>About</h1>", {
+    title: "About <us>",
+  });
+  assert.match(html, /<div id="root"><h1>About<\/h1><\/div>/);
+  assert.match(html, /<title>About &lt;us&gt;<\/title>/);
+  assert.match(html, /<script src="\/assets\/app.js"><\/script>/);
+});
+
+test("composePage falls back to the body without a root element", () => {
+  const shell = "<html><head><title>App</title></head><body></body></html>";
+  const html = composePage(shell, findSpaRootElementRegex(shell), "<p>Hi</p>", {
+    title: "",
+  });
+  assert.equal(
+    html,
+    "<html><head><title>App</title></head><body><p>Hi</p></body></html>"
+  );
+});
+
+test("extractRootFragment balances nested elements", () => {
+  const page = composePage(
+    SHELL,
+    findSpaRootElementRegex(SHELL),
+    "<div><p>One</p></div><div>Two</div>",
+    { title: "" }
+  );
+  assert.equal(
+    extractRootFragment(page),
+    "<div><p>One</p></div><div>Two</div>"
+  );
+  assert.equal(extractRootFragment("<body><p>Hi</p></body>"), "<p>Hi</p>");
+  assert.equal(extractRootFragment('<div id="root"><div>Open</div>'), null);
+});
+
+await run();
@@ -0,0 +1,127 @@
+// Method handling and error responses
+import assert from "assert/strict";
+import {
+  adminAuthorization,
+  BOT,
+  capture,
+  createTestHandler,
+  request,
+  run,
+  test,
+} from "./helpers.js";
+
+const MALFORMED = "/%E0%A4%A";
+
+test("a malformed percent-encoded path is a 400", async () => {
+  const { handler } = await createTestHandler();
+  for (const userAgent of [BOT, undefined]) {
+    const response = await request(handler, MALFORMED, { userAgent });
+    assert.equal(response.status, 400);
+  }
+});
+
+test("captures for a malformed path are a 400", async () => {
+  const { handler } = await createTestHandler();
+  const response = await capture(handler, MALFORMED, { token: "x" });
+  assert.equal(response.status, 400);
+});
+
+test("cache info for a malformed path is a 400", async () => {
+  const { handler } = await createTestHandler();
+  const response = await request(
+    handler,
+    `/__sterad_cache_info?path=${encodeURIComponent(MALFORMED)}`
+  );
+  assert.equal(response.status, 400);
+});
+
+test("admin requests for a malformed path are a 400", async () => {
+  const { handler } = await createTestHandler();
+  const entry = await request(
+    handler,
+    `/__sterad_admin/cache/entry?path=${encodeURIComponent(MALFORMED)}`,
+    { headers: await adminAuthorization() }
+  );
+  assert.equal(entry.status, 400);
+
+  const deleted = await request(handler, "/__sterad_capture", {
+    method: "DELETE",
+    headers: await adminAuthorization(),
+    body: JSON.stringify({ path: MALFORMED }),
+  });
+  assert.equal(deleted.status, 400);
+});
+
+test("pages answer OPTIONS with the methods they allow", async () => {
+  const { handler } = await createTestHandler();
+  const response = await request(handler, "/about", { method: "OPTIONS" });
+  assert.equal(response.status, 204);
+  assert.equal(response.headers.get("Allow"), "GET, HEAD, OPTIONS");
+});
+
+test("unsupported methods get a 405 with Allow", async () => {
+  const { handler } = await createTestHandler();
+  const page = await request(handler, "/about", { method: "PUT" });
+  assert.equal(page.status, 405);
+  assert.equal(page.headers.get("Allow"), "GET, HEAD, OPTIONS");
+
+  const capturePage = await request(handler, "/__sterad_capture");
+  assert.equal(capturePage.status, 405);
+  assert.equal(capturePage.headers.get("Allow"), "POST, DELETE, OPTIONS");
+});
+
+test("the capture endpoint ignores the query string", async () => {
+  const { handler } = await createTestHandler();
+  const response = await request(handler, "/__sterad_capture?x=1", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ path: "/about", title: "T", content: "<p>Hi</p>" }),
+  });
+  assert.equal(response.status, 200);
+
+  const deleted = await request(handler, "/__sterad_capture?x=1", {
+    method: "DELETE",
+    body: JSON.stringify({ path: "/about" }),
+  });
+  assert.equal(deleted.status, 401);
+});
+
+test("admin routes answer OPTIONS without credentials", async () => {
+  const { handler } = await createTestHandler();
+  const cache = await request(handler, "/__sterad_admin/cache", {
+    method: "OPTIONS",
+  });
+  assert.equal(cache.status, 204);
+  assert.equal(cache.headers.get("Allow"), "GET, DELETE, OPTIONS");
+
+  const reload = await request(handler, "/__sterad_admin/reload", {
+    method: "OPTIONS",
+  });
+  assert.equal(reload.headers.get("Allow"), "POST, OPTIONS");
+
+  const unknown = await request(handler, "/__sterad_admin/nothing", {
+    method: "OPTIONS",
+  });
+  assert.equal(unknown.status, 404);
+});
+
+test("admin routes reject other methods with a 405", async () => {
+  const { handler } = await createTestHandler();
+  const response = await request(handler, "/__sterad_admin/stats", {
+    method: "DELETE",
+  });
+  assert.equal(response.status, 405);
+  assert.equal(response.headers.get("Allow"), "GET, OPTIONS");
+});
+
+test("admin routes still need a token", async () => {
+  const { handler } = await createTestHandler();
+  const response = await request(handler, "/__sterad_admin/stats");
+  assert.equal(response.status, 401);
+  const authorized = await request(handler, "/__sterad_admin/stats", {
+    headers: await adminAuthorization(["read"]),
+  });
+  assert.equal(authorized.status, 200);
+});
+
+await run();
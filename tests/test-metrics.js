@@ -0,0 +1,162 @@
+// /__sterad_metrics: the Prometheus text format and the counters behind it,
+// scraped after a known sequence of requests
+import assert from "assert/strict";
+import {
+  adminAuthorization,
+  BOT,
+  capture,
+  createTestHandler,
+  getCaptureToken,
+  request,
+  run,
+  test,
+} from "./helpers.js";
+
+const SAMPLE =
+  /^([a-z_]+)(\{[a-z_]+="[^"]*"(,[a-z_]+="[^"]*")*\})? (\d+(\.\d+)?(e-?\d+)?)$/;
+
+// Samples by "name{labels}", after checking every line is well-formed and
+// every sample follows its metric's HELP and TYPE
+function parseMetrics(text) {
+  assert.ok(text.endsWith("\n"));
+  const samples = new Map();
+  const types = new Map();
+  for (const line of text.slice(0, -1).split("\n")) {
+    const comment = line.match(/^# (HELP|TYPE) ([a-z_]+) (.+)$/);
+    if (comment) {
+      if (comment[1] === "TYPE") {
+        assert.match(comment[3], /^(counter|histogram)$/);
+        types.set(comment[2], comment[3]);
+      }
+      continue;
+    }
+    const sample = line.match(SAMPLE);
+    assert.ok(sample, `Malformed line: ${line}`);
+    const metric = sample[1].replace(/_(bucket|sum|count)$/, "");
+    assert.ok(types.has(sample[1]) || types.get(metric) === "histogram", line);
+    samples.set(sample[1] + (sample[2] ?? ""), Number(sample[4]));
+  }
+  return { samples, types };
+}
+
+async function scrape(handler, headers) {
+  const response = await request(handler, "/__sterad_metrics", { headers });
+  return { response, text: await response.text() };
+}
+
+test("metrics count each branch the traffic took", async () => {
+  const { handler } = await createTestHandler({
+    metrics_enabled: true,
+    max_disk_cache_entries: 1,
+  });
+
+  await request(handler, "/about"); // human: shell
+  await request(handler, "/about", { userAgent: BOT }); // bot: miss
+  await capture(handler, "/about", {
+    token: await getCaptureToken(handler, "/about"), // human: shell
+  });
+  await request(handler, "/about", { userAgent: BOT }); // disk hit
+  await request(handler, "/about", { userAgent: BOT }); // memory hit
+  await request(handler, "/assets/app.js"); // static miss
+  await request(handler, "/assets/app.js"); // static hit
+  await capture(handler, "/about", { token: null }); // rejected
+  await capture(handler, "/contact", {
+    token: await getCaptureToken(handler, "/contact"), // human: shell
+  }); // evicts /about
+  await handler.reload();
+
+  const { response, text } = await scrape(
+    handler,
+    await adminAuthorization(["read"])
+  );
+  assert.equal(response.status, 200);
+  assert.equal(
+    response.headers.get("Content-Type"),
+    "text/plain; version=0.0.4"
+  );
+  const { samples, types } = parseMetrics(text);
+
+  assert.deepEqual(
+    Object.fromEntries(
+      [...samples].filter(([name]) => !name.startsWith("sterad_request_"))
+    ),
+    {
+      'sterad_memory_cache_lookups_total{tier="snapshot",result="miss"}': 2,
+      'sterad_memory_cache_lookups_total{tier="snapshot",result="hit"}': 1,
+      'sterad_memory_cache_lookups_total{tier="static",result="miss"}': 1,
+      'sterad_memory_cache_lookups_total{tier="static",result="hit"}': 1,
+      'sterad_disk_cache_lookups_total{result="miss"}': 1,
+      'sterad_disk_cache_lookups_total{result="hit"}': 1,
+      'sterad_shell_fallbacks_total{client="human"}': 3,
+      'sterad_shell_fallbacks_total{client="bot"}': 1,
+      'sterad_captures_total{result="accepted",reason="none"}': 2,
+      'sterad_captures_total{result="rejected",reason="invalid_token"}': 1,
+      sterad_disk_cache_evictions_total: 1,
+      'sterad_config_reloads_total{result="success"}': 1,
+    }
+  );
+  // Metrics without samples are still described
+  assert.equal(types.get("sterad_intercept_script_runs_total"), "counter");
+  assert.equal(types.get("sterad_request_duration_seconds"), "histogram");
+});
+
+test("the latency histogram has cumulative buckets per method and status", async () => {
+  const { handler } = await createTestHandler({
+    metrics_enabled: true,
+    metrics_require_auth: false,
+  });
+  for (let i = 0; i < 3; i++) {
+    await request(handler, "/about");
+  }
+  await request(handler, "/assets/missing.js");
+  await request(handler, "/about", { method: "PUT" });
+
+  const { samples } = parseMetrics((await scrape(handler)).text);
+  const name = "sterad_request_duration_seconds";
+  for (const [labels, count] of [
+    ['method="GET",status="200"', 3],
+    ['method="GET",status="404"', 1],
+    ['method="PUT",status="405"', 1],
+  ]) {
+    const buckets = [...samples]
+      .filter(([key]) => key.startsWith(`${name}_bucket{${labels},le=`))
+      .map(([, value]) => value);
+    assert.equal(buckets.length, 12, labels);
+    assert.deepEqual(
+      buckets,
+      [...buckets].sort((a, b) => a - b),
+      "buckets are cumulative"
+    );
+    assert.equal(samples.get(`${name}_bucket{${labels},le="+Inf"}`), count);
+    assert.equal(samples.get(`${name}_count{${labels}}`), count);
+    assert.ok(samples.get(`${name}_sum{${labels}}`) >= 0);
+  }
+});
+
+test("scraping needs the read scope unless metrics_require_auth is off", async () => {
+  const { handler } = await createTestHandler({ metrics_enabled: true });
+  assert.equal((await scrape(handler)).response.status, 401);
+  assert.equal(
+    (await scrape(handler, await adminAuthorization(["purge"]))).response
+      .status,
+    401
+  );
+
+  const { handler: open } = await createTestHandler({
+    metrics_enabled: true,
+    metrics_require_auth: false,
+  });
+  assert.equal((await scrape(open)).response.status, 200);
+});
+
+test("without metrics_enabled there is no metrics endpoint", async () => {
+  const { handler } = await createTestHandler();
+  const { response, text } = await scrape(
+    handler,
+    await adminAuthorization(["read"])
+  );
+  assert.match(response.headers.get("Content-Type"), /^text\/html/);
+  assert.doesNotMatch(text, /^# TYPE /m);
+});
+
+await run();
@@ -0,0 +1,128 @@
+// With capture_quorum, a page is cached once enough distinct clients agree
+import assert from "assert/strict";
+import {
+  adminAuthorization,
+  BOT,
+  capture,
+  createTestHandler,
+  request,
+  run,
+  test,
+} from "./helpers.js";
+
+async function isCached(handler, path) {
+  const html = await (await request(handler, path, { userAgent: BOT })).text();
+  return html.includes("Captured page");
+}
+
+test("a page is cached once the quorum agrees", async () => {
+  const { handler } = await createTestHandler({ capture_quorum: 3 });
+  await capture(handler, "/about", { ip: "10.0.0.1" });
+  await capture(handler, "/about", { ip: "10.0.0.2" });
+  assert.ok(!(await isCached(handler, "/about")));
+  await capture(handler, "/about", { ip: "10.0.0.3" });
+  assert.ok(await isCached(handler, "/about"));
+});
+
+test("repeat captures from one client count once", async () => {
+  const { handler } = await createTestHandler({ capture_quorum: 2 });
+  for (let i = 0; i < 3; i++) {
+    await capture(handler, "/about", { ip: "10.0.0.1" });
+  }
+  assert.ok(!(await isCached(handler, "/about")));
+});
+
+test("whitespace differences don't split the vote", async () => {
+  const { handler } = await createTestHandler({ capture_quorum: 2 });
+  await capture(handler, "/about", {
+    ip: "10.0.0.1",
+    content: "<h1>Captured page</h1><p>Some text</p>",
+  });
+  await capture(handler, "/about", {
+    ip: "10.0.0.2",
+    content: "<h1>Captured page</h1>\n  <p>Some   text</p>",
+  });
+  assert.ok(await isCached(handler, "/about"));
+});
+
+test("disagreeing captures are listed for admins", async () => {
+  const { handler } = await createTestHandler({ capture_quorum: 2 });
+  await capture(handler, "/about", { ip: "10.0.0.1" });
+  await capture(handler, "/about", {
+    ip: "10.0.0.2",
+    content: "<h1>Captured page</h1><p>Injected spam</p>",
+  });
+  assert.ok(!(await isCached(handler, "/about")));
+
+  const response = await request(
+    handler,
+    "/__sterad_admin/captures/disagreements",
+    { headers: await adminAuthorization(["read"]) }
+  );
+  const body = await response.json();
+  assert.equal(response.status, 200);
+  assert.match(JSON.stringify(body), /"\/about"/);
+});
+
+test("behind a proxy each forwarded client counts", async () => {
+  const { handler } = await createTestHandler({
+    capture_quorum: 2,
+    trust_proxy: true,
+  });
+  for (const client of ["203.0.113.1", "203.0.113.2"]) {
+    await capture(handler, "/about", {
+      ip: "10.0.0.254",
+      headers: { "X-Forwarded-For": client },
+    });
+  }
+  assert.ok(await isCached(handler, "/about"));
+});
+
+test("a spoofed X-Forwarded-For entry is not a separate voter", async () => {
+  const { handler } = await createTestHandler({
+    capture_quorum: 2,
+    trust_proxy: true,
+  });
+  // One client sends two captures with made-up leftmost entries; the proxy
+  // appends the address it actually saw
+  for (const spoofed of ["198.51.100.1", "198.51.100.2"]) {
+    await capture(handler, "/about", {
+      ip: "10.0.0.254",
+      headers: { "X-Forwarded-For": `${spoofed}, 203.0.113.1` },
+    });
+  }
+  assert.ok(!(await isCached(handler, "/about")));
+});
+
+test("trusted_proxy_hops reads the client past every proxy", async () => {
+  const { handler } = await createTestHandler({
+    capture_quorum: 2,
+    trust_proxy: true,
+    trusted_proxy_hops: 2,
+  });
+  // Client, then the CDN edge the load balancer saw
+  await capture(handler, "/about", {
+    headers: { "X-Forwarded-For": "198.51.100.1, 203.0.113.1, 192.0.2.10" },
+  });
+  await capture(handler, "/about", {
+    headers: { "X-Forwarded-For": "198.51.100.2, 203.0.113.1, 192.0.2.11" },
+  });
+  assert.ok(!(await isCached(handler, "/about")));
+  await capture(handler, "/about", {
+    headers: { "X-Forwarded-For": "203.0.113.2, 192.0.2.10" },
+  });
+  assert.ok(await isCached(handler, "/about"));
+});
+
+test("without trust_proxy X-Forwarded-For is ignored", async () => {
+  const { handler } = await createTestHandler({ capture_quorum: 2 });
+  for (const client of ["203.0.113.1", "203.0.113.2"]) {
+    await capture(handler, "/about", {
+      ip: "10.0.0.1",
+      headers: { "X-Forwarded-For": client },
+    });
+  }
+  assert.ok(!(await isCached(handler, "/about")));
+});
+
+await run();
@@ -0,0 +1,130 @@
+// Capture rate limits: a token bucket per client IP and a cooldown per path
+import assert from "assert/strict";
+import { capture, createTestHandler, run, test } from "./helpers.js";
+
+test("each client gets capture_rate_burst captures at once", async () => {
+  const { handler } = await createTestHandler({
+    capture_rate_limit: 1,
+    capture_rate_burst: 3,
+  });
+  const statuses = [];
+  for (let i = 0; i < 4; i++) {
+    const response = await capture(handler, `/page-${i}`, { ip: "10.0.0.1" });
+    statuses.push(response.status);
+  }
+  assert.deepEqual(statuses, [200, 200, 200, 429]);
+});
+
+test("rate limited captures say when to retry", async () => {
+  const { handler } = await createTestHandler({
+    capture_rate_limit: 2,
+    capture_rate_burst: 1,
+  });
+  await capture(handler, "/one", { ip: "10.0.0.1" });
+  const response = await capture(handler, "/two", { ip: "10.0.0.1" });
+  assert.equal(response.status, 429);
+  // One token refills every 30 seconds
+  const retryAfter = Number(response.headers.get("Retry-After"));
+  assert.ok(retryAfter > 0 && retryAfter <= 30, String(retryAfter));
+});
+
+test("clients have separate buckets", async () => {
+  const { handler } = await createTestHandler({
+    capture_rate_limit: 1,
+    capture_rate_burst: 1,
+  });
+  assert.equal(
+    (await capture(handler, "/one", { ip: "10.0.0.1" })).status,
+    200
+  );
+  assert.equal(
+    (await capture(handler, "/two", { ip: "10.0.0.1" })).status,
+    429
+  );
+  assert.equal(
+    (await capture(handler, "/two", { ip: "10.0.0.2" })).status,
+    200
+  );
+});
+
+test("the bucket refills over time", async () => {
+  // 600 per minute refills a token every 100ms
+  const { handler } = await createTestHandler({
+    capture_rate_limit: 600,
+    capture_rate_burst: 1,
+  });
+  assert.equal(
+    (await capture(handler, "/one", { ip: "10.0.0.1" })).status,
+    200
+  );
+  assert.equal(
+    (await capture(handler, "/two", { ip: "10.0.0.1" })).status,
+    429
+  );
+  await new Promise((resolve) => setTimeout(resolve, 150));
+  assert.equal(
+    (await capture(handler, "/two", { ip: "10.0.0.1" })).status,
+    200
+  );
+});
+
+test("spoofed X-Forwarded-For entries share the client's bucket", async () => {
+  const { handler } = await createTestHandler({
+    capture_rate_limit: 1,
+    capture_rate_burst: 1,
+    trust_proxy: true,
+  });
+  const statuses = [];
+  for (const spoofed of ["198.51.100.1", "198.51.100.2"]) {
+    const response = await capture(handler, `/${spoofed}`, {
+      ip: "10.0.0.254",
+      headers: { "X-Forwarded-For": `${spoofed}, 203.0.113.1` },
+    });
+    statuses.push(response.status);
+  }
+  assert.deepEqual(statuses, [200, 429]);
+});
+
+test("a cached path ignores captures during its cooldown", async () => {
+  const { handler } = await createTestHandler({ capture_path_cooldown: 60 });
+  assert.equal(
+    (await capture(handler, "/about", { ip: "10.0.0.1" })).status,
+    200
+  );
+  const response = await capture(handler, "/about", { ip: "10.0.0.2" });
+  assert.equal(response.status, 429);
+  const retryAfter = Number(response.headers.get("Retry-After"));
+  assert.ok(retryAfter > 0 && retryAfter <= 60, String(retryAfter));
+  assert.equal(
+    (await capture(handler, "/contact", { ip: "10.0.0.2" })).status,
+    200
+  );
+});
+
+test("rejected captures don't start a cooldown", async () => {
+  const { handler } = await createTestHandler({ capture_path_cooldown: 60 });
+  await capture(handler, "/about", { token: null });
+  assert.equal((await capture(handler, "/about")).status, 200);
+});
+
+test("captures without a valid token can't probe a cooldown", async () => {
+  const { handler } = await createTestHandler({ capture_path_cooldown: 60 });
+  await capture(handler, "/about");
+  for (const token of [null, "1.forged"]) {
+    const response = await capture(handler, "/about", { token });
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get("Retry-After"), null);
+  }
+});
+
+test("a capture_rate_limit of 0 disables the limit", async () => {
+  const { handler } = await createTestHandler({
+    capture_rate_limit: 0,
+    capture_rate_burst: 1,
+  });
+  for (let i = 0; i < 5; i++) {
+    assert.equal((await capture(handler, `/page-${i}`)).status, 200);
+  }
+});
+
+await run();
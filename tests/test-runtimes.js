@@ -0,0 +1,214 @@
+// The same serving, capture and purge behaviour over HTTP under both runtimes.
+// Each runtime is tested on the platform it's built for: test-runner.js runs
+// this file under Bun and again under Node (node --import ./tests/node/register.js)
+import assert from "assert/strict";
+import { bunRuntime } from "../src/runtime-bun.ts";
+import { nodeRuntime } from "../src/runtime-node.ts";
+import {
+  adminAuthorization,
+  BOT,
+  BROWSER,
+  createSpaDist,
+  createTestHandler,
+  run,
+  test,
+} from "./helpers.js";
+
+// Large enough to be streamed from disk rather than held in memory
+const LARGE_ASSET = "x".repeat(200 * 1024);
+
+let nextPort = 42000 + (process.pid % 1000) * 10;
+
+async function startServer(runtime, config = {}) {
+  const spa_dist = createSpaDist({ "assets/large.js": LARGE_ASSET });
+  const { handler } = await createTestHandler(
+    { spa_dist, static_cache_max_file_bytes: 64 * 1024, ...config },
+    { runtime }
+  );
+  const port = nextPort++;
+  const server = runtime.serve({ port, fetch: handler });
+  return {
+    url: (path) => `http://127.0.0.1:${port}${path}`,
+    stop: () => server.stop(),
+  };
+}
+
+async function captureOver(server, path, content) {
+  const shell = await (
+    await fetch(server.url(path), { headers: { "User-Agent": BROWSER } })
+  ).text();
+  const token = shell.match(/sterad-capture-token" content="([^"]+)"/)[1];
+  return fetch(server.url("/__sterad_capture"), {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "User-Agent": BROWSER },
+    body: JSON.stringify({ path, title: "Captured", content, token }),
+  });
+}
+
+function botFetch(server, path, headers = {}) {
+  return fetch(server.url(path), {
+    headers: { "User-Agent": BOT, ...headers },
+  });
+}
+
+const runtime = typeof Bun === "undefined" ? nodeRuntime : bunRuntime;
+
+test(`${runtime.name}: serves the shell and static assets`, async () => {
+  const server = await startServer(runtime);
+  try {
+    const page = await fetch(server.url("/about"));
+    assert.equal(page.status, 200);
+    assert.match(page.headers.get("Content-Type"), /^text\/html/);
+    assert.match(await page.text(), /<div id="root"><\/div>/);
+
+    const asset = await fetch(server.url("/assets/app.js"));
+    assert.equal(await asset.text(), "console.log('app');");
+    assert.match(asset.headers.get("Cache-Control"), /immutable/);
+
+    const large = await fetch(server.url("/assets/large.js"));
+    assert.equal((await large.text()).length, LARGE_ASSET.length);
+
+    const missing = await fetch(server.url("/assets/missing.js"));
+    assert.equal(missing.status, 404);
+  } finally {
+    await server.stop();
+  }
+});
+
+test(`${runtime.name}: serves captured pages to bots`, async () => {
+  const server = await startServer(runtime);
+  try {
+    const captured = await captureOver(
+      server,
+      "/about",
+      "<h1>About</h1><p>Served by either runtime</p>"
+    );
+    assert.equal(captured.status, 200);
+
+    const page = await botFetch(server, "/about");
+    assert.equal(page.status, 200);
+    assert.match(page.headers.get("Cache-Control"), /max-age=3600/);
+    assert.match(await page.text(), /Served by either runtime/);
+
+    const revalidated = await botFetch(server, "/about", {
+      "If-None-Match": page.headers.get("ETag"),
+    });
+    assert.equal(revalidated.status, 304);
+
+    const head = await fetch(server.url("/about"), {
+      method: "HEAD",
+      headers: { "User-Agent": BOT },
+    });
+    assert.equal(head.status, 200);
+    assert.equal(await head.text(), "");
+  } finally {
+    await server.stop();
+  }
+});
+
+test(`${runtime.name}: negotiates compressed snapshots`, async () => {
+  const server = await startServer(runtime);
+  try {
+    await captureOver(server, "/about", "<h1>About</h1><p>Compressed</p>");
+    // fetch decodes the body, so the text is the page either way
+    const response = await botFetch(server, "/about", {
+      "Accept-Encoding": "gzip",
+    });
+    assert.equal(response.headers.get("Content-Encoding"), "gzip");
+    assert.equal(response.headers.get("Vary"), "Accept-Encoding");
+    assert.match(await response.text(), /Compressed/);
+  } finally {
+    await server.stop();
+  }
+});
+
+test(`${runtime.name}: purges entries through the admin API`, async () => {
+  const server = await startServer(runtime);
+  try {
+    await captureOver(server, "/blog/one", "<h1>One</h1><p>First post</p>");
+    await captureOver(server, "/about", "<h1>About</h1><p>About page</p>");
+
+    const purged = await fetch(
+      server.url("/__sterad_admin/cache?pattern=/blog/*"),
+      { method: "DELETE", headers: await adminAuthorization(["purge"]) }
+    );
+    assert.equal(purged.status, 200);
+    assert.equal((await purged.json()).purged, 1);
+
+    assert.doesNotMatch(
+      await (await botFetch(server, "/blog/one")).text(),
+      /First post/
+    );
+    assert.match(await (await botFetch(server, "/about")).text(), /About page/);
+  } finally {
+    await server.stop();
+  }
+});
+
+test(`${runtime.name}: rejects malformed requests and methods`, async () => {
+  const server = await startServer(runtime);
+  try {
+    const malformed = await fetch(server.url("/%E0%A4%A"));
+    assert.equal(malformed.status, 400);
+
+    const method = await fetch(server.url("/about"), { method: "PUT" });
+    assert.equal(method.status, 405);
+    assert.equal(method.headers.get("Allow"), "GET, HEAD, OPTIONS");
+  } finally {
+    await server.stop();
+  }
+});
+
+test(`${runtime.name}: parses TOML config files`, () => {
+  const config = runtime.parseToml(`
+spa_dist = "./dist" # comment
+cache_routes = ["/*", '/blog/*']
+deployed_at = 1979-05-27T07:32:00Z
+
+[security_headers_routes."/docs/*"]
+X-Frame-Options = ""
+`);
+  assert.equal(config.spa_dist, "./dist");
+  assert.deepEqual(config.cache_routes, ["/*", "/blog/*"]);
+  // A Date under Node and a Temporal.Instant under Bun
+  assert.match(JSON.stringify(config.deployed_at), /^"1979-05-27T07:32:00/);
+  assert.deepEqual(
+    { ...config.security_headers_routes["/docs/*"] },
+    { "X-Frame-Options": "" }
+  );
+});
+
+test(`${runtime.name}: cancels the body when the client disconnects`, async () => {
+  let cancelled;
+  const cancel = new Promise((resolve) => (cancelled = resolve));
+  const chunk = new Uint8Array(64 * 1024);
+  const port = nextPort++;
+  const server = runtime.serve({
+    port,
+    // Endless, so the copy only stops when the client goes away
+    fetch: () =>
+      new Response(
+        new ReadableStream({
+          pull: (controller) => controller.enqueue(chunk),
+          cancel: () => cancelled(),
+        })
+      ),
+  });
+  try {
+    const abort = new AbortController();
+    const response = await fetch(`http://127.0.0.1:${port}/`, {
+      signal: abort.signal,
+    });
+    await response.body.getReader().read();
+    abort.abort();
+
+    const timeout = new Promise((_, reject) =>
+      setTimeout(() => reject(new Error("body was not cancelled")), 5000)
+    );
+    await Promise.race([cancel, timeout]);
+  } finally {
+    await server.stop();
+  }
+});
+
+await run();
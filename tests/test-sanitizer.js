@@ -0,0 +1,262 @@
+// The HTML parser that validates and sanitizes captured content
+import assert from "assert/strict";
+import { validateConfig } from "../src/config.ts";
+import { MAX_NESTING_DEPTH, parseHtmlFragment } from "../src/sanitizer.ts";
+import {
+  BOT,
+  capture,
+  createTestHandler,
+  request,
+  run,
+  test,
+} from "./helpers.js";
+
+function createPolicy(config = {}) {
+  const {
+    allowed_tags,
+    allowed_attributes,
+    allowed_url_schemes,
+    allow_style_attributes,
+    allowed_css_properties,
+  } = validateConfig({ spa_dist: "dist", cache_routes: ["/*"], ...config });
+  return {
+    allowedTags: allowed_tags,
+    allowedAttributes: allowed_attributes,
+    allowedUrlSchemes: allowed_url_schemes,
+    allowStyleAttributes: allow_style_attributes,
+    allowedCssProperties: allowed_css_properties,
+  };
+}
+
+const policy = createPolicy();
+const sanitize = (content) => parseHtmlFragment(content, policy).html;
+const reasons = (content) =>
+  parseHtmlFragment(content, policy).violations.map(({ reason }) => reason);
+
+test("allowed markup is serialized unchanged", () => {
+  const html =
+    '<h1 class="title">Hello</h1><p>Some <strong>bold</strong> text</p>';
+  assert.equal(sanitize(html), html);
+  assert.deepEqual(reasons(html), []);
+});
+
+test("scripts and their content are removed", () => {
+  const html = "<p>Hi</p><script>alert(1)</script><p>there</p>";
+  assert.equal(sanitize(html), "<p>Hi</p><p>there</p>");
+  assert.deepEqual(reasons(html), ["Script tags not allowed"]);
+});
+
+test("markup inside a script is not parsed", () => {
+  const html = '<script>var s = "<p>not markup</p>";</script><p>after</p>';
+  assert.equal(sanitize(html), "<p>after</p>");
+});
+
+test("event handler attributes are removed", () => {
+  const html = '<img src="/a.png" onerror="alert(1)" alt="A">';
+  assert.equal(sanitize(html), '<img src="/a.png" alt="A">');
+  assert.equal(parseHtmlFragment(html, policy).violations.length, 1);
+});
+
+test("entity-encoded javascript: URLs are caught", () => {
+  for (const href of [
+    "javascript:alert(1)",
+    "JaVaScRiPt:alert(1)",
+    "&#106;avascript:alert(1)",
+    "java&#x09;script:alert(1)",
+    " javascript:alert(1)",
+  ]) {
+    const html = `<a href="${href}">link</a>`;
+    assert.equal(sanitize(html), "<a>link</a>", href);
+    assert.notEqual(reasons(html).length, 0, href);
+  }
+});
+
+test("unclosed and implicitly closed elements are balanced", () => {
+  assert.equal(
+    sanitize("<ul><li>One<li>Two</ul><p>A<p>B"),
+    "<ul><li>One</li><li>Two</li></ul><p>A</p><p>B</p>"
+  );
+  assert.deepEqual(reasons("<ul><li>One<li>Two</ul><p>A<p>B"), []);
+});
+
+test("mismatched end tags are reported", () => {
+  assert.deepEqual(reasons("<div><span>text</div></span>"), [
+    "Mismatched HTML tags: expected </span>, found </div>",
+    "Unexpected closing tag: </span>",
+  ]);
+});
+
+test("deeply nested fragments are rejected quickly", () => {
+  const nested = (depth) => "<b>".repeat(depth) + "text" + "</b>".repeat(depth);
+  assert.deepEqual(reasons(nested(MAX_NESTING_DEPTH)), []);
+  assert.deepEqual(reasons(nested(MAX_NESTING_DEPTH + 1)), [
+    `HTML nested deeper than ${MAX_NESTING_DEPTH} elements`,
+  ]);
+
+  // Around a megabyte each, the default max_content_length
+  const start = Date.now();
+  for (const content of [
+    "<b>".repeat(300000),
+    nested(140000),
+    "<script>" + "<b>".repeat(300000),
+    "<b " + Array.from({ length: 100000 }, (_, i) => `a${i}`).join(" ") + ">",
+  ]) {
+    parseHtmlFragment(content, policy);
+  }
+  assert.ok(Date.now() - start < 2000, `took ${Date.now() - start} ms`);
+});
+
+test("disallowed tags are unwrapped and reported", () => {
+  const html = "<p>A <blink>blinking</blink> word</p>";
+  assert.equal(sanitize(html), "<p>A blinking word</p>");
+  assert.deepEqual(reasons(html), ["Disallowed HTML tag: blink"]);
+});
+
+test("text and attribute values are escaped on output", () => {
+  assert.equal(
+    sanitize('<p title="a&quot;b">1 &lt; 2 &amp;&amp; 3 > 2</p>'),
+    '<p title="a&quot;b">1 &lt; 2 &amp;&amp; 3 > 2</p>'
+  );
+});
+
+test("comments are dropped", () => {
+  assert.equal(sanitize("<p>A<!-- <script>x</script> -->B</p>"), "<p>AB</p>");
+});
+
+test("attributes are allowed per tag", () => {
+  const strict = createPolicy({
+    allowed_attributes: { "*": ["id", "data-*"], a: ["href"] },
+  });
+  const { html, violations } = parseHtmlFragment(
+    '<a href="/x" data-track="1" class="btn" id="go">Go</a><p href="/y">P</p>',
+    strict
+  );
+  assert.equal(html, '<a href="/x" data-track="1" id="go">Go</a><p>P</p>');
+  assert.deepEqual(
+    violations.map(({ reason }) => reason),
+    [
+      'Disallowed attribute "class" on <a>',
+      'Disallowed attribute "href" on <p>',
+    ]
+  );
+});
+
+test("URLs must use an allowed scheme or be relative", () => {
+  const httpsOnly = createPolicy({ allowed_url_schemes: ["https"] });
+  const sanitizeWith = (html) => parseHtmlFragment(html, httpsOnly).html;
+  assert.equal(
+    sanitizeWith('<a href="https://example.com">a</a>'),
+    '<a href="https://example.com">a</a>'
+  );
+  assert.equal(
+    sanitizeWith('<a href="/relative">a</a>'),
+    '<a href="/relative">a</a>'
+  );
+  assert.equal(sanitizeWith('<a href="http://example.com">a</a>'), "<a>a</a>");
+  assert.equal(
+    sanitizeWith('<a href="mailto:me@example.com">a</a>'),
+    "<a>a</a>"
+  );
+});
+
+test("data: URLs are limited to image sources", () => {
+  const withData = createPolicy({
+    allowed_url_schemes: ["https", "data"],
+  });
+  const sanitizeWith = (html) => parseHtmlFragment(html, withData).html;
+  assert.equal(
+    sanitizeWith('<img src="data:image/png;base64,AAAA" alt="">'),
+    '<img src="data:image/png;base64,AAAA" alt="">'
+  );
+  assert.equal(
+    sanitizeWith('<img src="data:text/html,<b>x</b>" alt="">'),
+    '<img alt="">'
+  );
+  assert.equal(
+    sanitizeWith('<a href="data:image/png;base64,AAAA">a</a>'),
+    "<a>a</a>"
+  );
+});
+
+test("style attributes are off unless enabled", () => {
+  assert.equal(sanitize('<p style="color: red">P</p>'), "<p>P</p>");
+});
+
+test("enabled style attributes keep only allowed properties", () => {
+  const styled = createPolicy({
+    allow_style_attributes: true,
+    allowed_css_properties: ["color", "margin-*"],
+  });
+  const sanitizeWith = (html) => parseHtmlFragment(html, styled).html;
+  assert.equal(
+    sanitizeWith(
+      '<p style="color: red; margin-top: 1px; position: fixed">P</p>'
+    ),
+    '<p style="color: red; margin-top: 1px">P</p>'
+  );
+  for (const style of [
+    "color: url(https://example.com/x)",
+    "color: expression(alert(1))",
+    "color: \\72 ed",
+  ]) {
+    const { violations } = parseHtmlFragment(
+      `<p style="${style}">P</p>`,
+      styled
+    );
+    assert.notEqual(violations.length, 0, style);
+  }
+});
+
+test("invalid policies are config errors", () => {
+  assert.throws(
+    () => createPolicy({ allowed_attributes: { a: "href" } }),
+    /allowed_attributes/
+  );
+  assert.throws(
+    () => createPolicy({ allowed_url_schemes: "https" }),
+    /allowed_url_schemes/
+  );
+});
+
+test("captures are checked against the configured policy", async () => {
+  const { handler } = await createTestHandler({
+    allowed_attributes: { "*": ["id"] },
+  });
+  await capture(handler, "/about", {
+    content: '<p class="lead">Hello there, reader</p>',
+  });
+  const html = await (
+    await request(handler, "/about", { userAgent: BOT })
+  ).text();
+  assert.doesNotMatch(html, /Hello there/);
+});
+
+// The capture endpoint answers 200 either way, so bots are the witness
+test("captures with unsafe content are not cached", async () => {
+  const { handler } = await createTestHandler();
+  const response = await capture(handler, "/about", {
+    content: "<p>Hello there, reader</p><script>steal()</script>",
+  });
+  assert.equal(response.status, 200);
+  const html = await (
+    await request(handler, "/about", { userAgent: BOT })
+  ).text();
+  assert.doesNotMatch(html, /Hello there/);
+  assert.doesNotMatch(html, /steal\(\)/);
+});
+
+test("cached snapshots hold the sanitized fragment", async () => {
+  const { handler } = await createTestHandler();
+  await capture(handler, "/about", {
+    content: "<p>Hello there, reader<ul><li>First point<li>Second point</ul>",
+  });
+  const html = await (
+    await request(handler, "/about", { userAgent: BOT })
+  ).text();
+  assert.match(
+    html,
+    /<div id="root"><p>Hello there, reader<\/p><ul><li>First point<\/li><li>Second point<\/li><\/ul><\/div>/
+  );
+});
+
+await run();
@@ -0,0 +1,195 @@
+// [security_headers], per-route overrides and csp_nonce: the nonce on shell
+// responses and the window.Sterad script hash on snapshots
+import assert from "assert/strict";
+import { createHash } from "crypto";
+import {
+  BOT,
+  BROWSER,
+  capture,
+  createSpaDist,
+  createTestHandler,
+  request,
+  run,
+  test,
+} from "./helpers.js";
+
+const DEFAULT_POLICY = "default-src 'self'; script-src 'self' 'unsafe-inline'";
+
+function securityHeaders(response) {
+  return {
+    csp: response.headers.get("Content-Security-Policy"),
+    frameOptions: response.headers.get("X-Frame-Options"),
+    referrerPolicy: response.headers.get("Referrer-Policy"),
+  };
+}
+
+function scriptSrc(response) {
+  return response.headers
+    .get("Content-Security-Policy")
+    .split(";")
+    .map((directive) => directive.trim())
+    .find((directive) => directive.startsWith("script-src"));
+}
+
+// Inline <script> elements, with their nonce attribute if any
+function inlineScripts(html) {
+  return [
+    ...html.matchAll(/<script( nonce="([^"]*)")?>([\s\S]*?)<\/script>/g),
+  ].map(([, , nonce = null, source]) => ({ nonce, source }));
+}
+
+test("every response carries the default headers", async () => {
+  const { handler } = await createTestHandler();
+  await capture(handler, "/about");
+  for (const response of [
+    await request(handler, "/about"),
+    await request(handler, "/about", { userAgent: BOT }),
+    await request(handler, "/assets/app.js"),
+  ]) {
+    assert.deepEqual(securityHeaders(response), {
+      csp: DEFAULT_POLICY,
+      frameOptions: "DENY",
+      referrerPolicy: null,
+    });
+    assert.equal(response.headers.get("X-Content-Type-Options"), "nosniff");
+    assert.equal(
+      response.headers.get("Strict-Transport-Security"),
+      "max-age=63072000"
+    );
+  }
+});
+
+test("[security_headers] overrides, adds and removes headers", async () => {
+  const { handler } = await createTestHandler({
+    security_headers: {
+      // Header names are case-insensitive
+      "x-frame-options": "",
+      "Referrer-Policy": "no-referrer",
+    },
+  });
+  await capture(handler, "/about");
+  for (const response of [
+    await request(handler, "/about"),
+    await request(handler, "/about", { userAgent: BOT }),
+    await request(handler, "/assets/app.js"),
+    await request(handler, "/__sterad_admin/stats"),
+  ]) {
+    assert.deepEqual(securityHeaders(response), {
+      csp: DEFAULT_POLICY,
+      frameOptions: null,
+      referrerPolicy: "no-referrer",
+    });
+  }
+});
+
+test("route overrides apply on top of the global headers", async () => {
+  const { handler } = await createTestHandler({
+    spa_dist: createSpaDist({ "embed/widget.js": "widget();" }),
+    security_headers: { "Referrer-Policy": "no-referrer" },
+    security_headers_routes: {
+      "/embed/*": {
+        "X-Frame-Options": "",
+        "Content-Security-Policy": "frame-ancestors https://partner.example",
+      },
+      // Never reached: the first matching pattern wins
+      "/embed/special": { "X-Frame-Options": "SAMEORIGIN" },
+    },
+  });
+  await capture(handler, "/embed/video");
+  const embedded = {
+    csp: "frame-ancestors https://partner.example",
+    frameOptions: null,
+    referrerPolicy: "no-referrer",
+  };
+
+  for (const response of [
+    await request(handler, "/embed/video"),
+    await request(handler, "/embed/video", { userAgent: BOT }),
+    await request(handler, "/embed/special"),
+    // Static assets match by their path too
+    await request(handler, "/embed/widget.js"),
+  ]) {
+    assert.deepEqual(securityHeaders(response), embedded);
+  }
+  assert.deepEqual(securityHeaders(await request(handler, "/about")), {
+    csp: DEFAULT_POLICY,
+    frameOptions: "DENY",
+    referrerPolicy: "no-referrer",
+  });
+  // The capture endpoint uses the global headers whatever the path
+  const captured = await capture(handler, "/embed/video");
+  assert.equal(captured.headers.get("X-Frame-Options"), "DENY");
+});
+
+test("csp_nonce puts the header's nonce on the injected scripts", async () => {
+  const { handler } = await createTestHandler({ csp_nonce: true });
+  const nonces = [];
+  // Humans get window.Sterad; bots on a miss get the capture script too
+  for (const [userAgent, scriptCount] of [
+    [BROWSER, 1],
+    [BOT, 2],
+    [BROWSER, 1],
+  ]) {
+    const response = await request(handler, "/about", { userAgent });
+    const nonce = scriptSrc(response).match(/'nonce-([^']+)'/)[1];
+    const scripts = inlineScripts(await response.text());
+    assert.equal(scripts.length, scriptCount);
+    for (const script of scripts) {
+      assert.equal(script.nonce, nonce);
+    }
+    nonces.push(nonce);
+  }
+  assert.equal(new Set(nonces).size, nonces.length);
+});
+
+test("without csp_nonce the scripts carry no nonce", async () => {
+  const { handler } = await createTestHandler();
+  const response = await request(handler, "/about");
+  assert.equal(scriptSrc(response), "script-src 'self' 'unsafe-inline'");
+  for (const script of inlineScripts(await response.text())) {
+    assert.equal(script.nonce, null);
+  }
+});
+
+test("csp_nonce allows the snapshot's script by its hash", async () => {
+  const { handler } = await createTestHandler({ csp_nonce: true });
+  await capture(handler, "/about");
+  // Disk and memory hits alike
+  for (let i = 0; i < 2; i++) {
+    const response = await request(handler, "/about", { userAgent: BOT });
+    const scripts = inlineScripts(await response.text());
+    assert.equal(scripts.length, 1);
+    assert.equal(scripts[0].nonce, null);
+    const hash = createHash("sha256")
+      .update(scripts[0].source)
+      .digest("base64");
+    assert.equal(
+      scriptSrc(response),
+      `script-src 'self' 'unsafe-inline' 'sha256-${hash}'`
+    );
+  }
+});
+
+test("csp_nonce creates script-src from default-src when needed", async () => {
+  const headersFor = async (policy) => {
+    const { handler } = await createTestHandler({
+      csp_nonce: true,
+      security_headers: { "Content-Security-Policy": policy },
+    });
+    return (await request(handler, "/about")).headers.get(
+      "Content-Security-Policy"
+    );
+  };
+
+  assert.match(
+    await headersFor("default-src 'self' https://cdn.example; img-src *"),
+    /^default-src 'self' https:\/\/cdn\.example; img-src \*; script-src 'self' https:\/\/cdn\.example 'nonce-[^']+'$/
+  );
+  // Neither directive: scripts aren't restricted, so the policy is kept
+  assert.equal(
+    await headersFor("frame-ancestors 'none'"),
+    "frame-ancestors 'none'"
+  );
+});
+
+await run();
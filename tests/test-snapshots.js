@@ -0,0 +1,125 @@
+// Snapshots are stored as fragments and composed with the current shell
+import assert from "assert/strict";
+import { spawn } from "child_process";
+import { existsSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { gunzipSync } from "zlib";
+import {
+  BOT,
+  capture,
+  createTestHandler,
+  request,
+  run,
+  test,
+  writeSpaFiles,
+} from "./helpers.js";
+
+// Written by fixtures/intercept-counter.js
+const interceptLog = join(tmpdir(), `sterad-intercept-${process.pid}.log`);
+process.on("exit", () => rmSync(interceptLog, { force: true }));
+
+function interceptRuns() {
+  return existsSync(interceptLog)
+    ? readFileSync(interceptLog, "utf-8").split("\n").filter(Boolean).length
+    : 0;
+}
+
+test("bots get the captured content inside the shell", async () => {
+  const { handler } = await createTestHandler();
+  await capture(handler, "/about", { content: "<p>About us</p>" });
+  const response = await request(handler, "/about", { userAgent: BOT });
+  const html = await response.text();
+  assert.equal(response.status, 200);
+  assert.match(html, /<div id="root"><p>About us<\/p><\/div>/);
+  assert.match(html, /<title>Captured<\/title>/);
+  assert.doesNotMatch(html, /<meta name="sterad-capture-token"/);
+});
+
+test("snapshots pick up a redeployed shell", async () => {
+  const { handler, spa_dist } = await createTestHandler();
+  await capture(handler, "/about", { content: "<p>About us</p>" });
+  writeSpaFiles(spa_dist, {
+    "index.html": readFileSync(join(spa_dist, "index.html"), "utf-8").replace(
+      "/assets/app.js",
+      "/assets/app.v2.js"
+    ),
+  });
+  await handler.reload();
+  const html = await (
+    await request(handler, "/about", { userAgent: BOT })
+  ).text();
+  assert.match(html, /app\.v2\.js/);
+  assert.match(html, /<p>About us<\/p>/);
+});
+
+test("the intercept script runs once per capture, not per disk hit", async () => {
+  writeFileSync(interceptLog, "");
+  const config = { intercept_script: "./tests/fixtures/intercept-counter.js" };
+  const { handler, spa_dist } = await createTestHandler(config);
+  await capture(handler, "/about", { content: "<p>About us</p>" });
+  assert.equal(interceptRuns(), 1);
+
+  // A second instance has an empty memory cache, so every request below
+  // starts as a disk hit
+  const { handler: restarted } = await createTestHandler({
+    ...config,
+    spa_dist,
+  });
+  const pages = await Promise.all(
+    [1, 2, 3].map(() =>
+      request(restarted, "/about", { userAgent: BOT }).then((r) => r.text())
+    )
+  );
+  for (const html of pages) {
+    assert.match(html, /id="intercepted"/);
+  }
+  assert.equal(interceptRuns(), 1);
+
+  const compressed = await request(restarted, "/about", {
+    userAgent: BOT,
+    headers: { "Accept-Encoding": "gzip" },
+  });
+  assert.equal(compressed.headers.get("Content-Encoding"), "gzip");
+  const entry = gunzipSync(
+    new Uint8Array(await compressed.arrayBuffer())
+  ).toString();
+  assert.match(entry, /id="intercepted"/);
+  assert.equal(interceptRuns(), 1);
+});
+
+test("a changed shell composes the page again", async () => {
+  writeFileSync(interceptLog, "");
+  const config = { intercept_script: "./tests/fixtures/intercept-counter.js" };
+  const { handler, spa_dist } = await createTestHandler(config);
+  await capture(handler, "/about");
+  writeSpaFiles(spa_dist, {
+    "index.html": readFileSync(join(spa_dist, "index.html"), "utf-8").replace(
+      "<title>App</title>",
+      "<title>App</title><link rel=stylesheet href=/app.css>"
+    ),
+  });
+  await handler.reload();
+  const html = await (
+    await request(handler, "/about", { userAgent: BOT })
+  ).text();
+  assert.match(html, /app\.css/);
+  assert.equal(interceptRuns(), 2);
+});
+
+test("a finished intercept script leaves no timer behind", async () => {
+  const started = Date.now();
+  const child = spawn(
+    process.execPath,
+    ["tests/fixtures/capture-and-exit.js"],
+    {
+      stdio: "ignore",
+    }
+  );
+  const code = await new Promise((resolve) => child.on("exit", resolve));
+  assert.equal(code, 0);
+  // The script timeout is 5 seconds
+  assert.ok(Date.now() - started < 4000, "process waited for the timeout");
+});
+
+await run();